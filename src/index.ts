@@ -12,8 +12,29 @@
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { CallToolRequestSchema, ListToolsRequestSchema, ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
-import { addDocument, getDocument, updateDocument, deleteDocument, listDocuments, list_collections } from './lib/firebase/firestoreClient';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  ErrorCode,
+  McpError
+} from '@modelcontextprotocol/sdk/types.js';
+import { addDocument, aggregateDocuments, compareVersions, findNearestDocuments, FindNearestOptions, getDocument, setDocument, updateDocument, deleteDocument, deleteRecursive, listDocuments, list_collections, queryCollectionGroup, exportCollection, importCollection, ProgressCallback } from './lib/firebase/firestoreClient';
+import { AggregationSpec, FilterSpec, OrderBySpec } from './lib/firebase/firestoreQuery';
+import { batchWrite, transactionalWrite, WriteOperation } from './lib/firebase/firestoreBatch';
+import { deleteWhere, updateWhere } from './lib/firebase/firestoreBulkWrite';
+import { copyDocument, moveDocument } from './lib/firebase/firestoreCopy';
+import { inferSchema } from './lib/firebase/firestoreSchema';
+import { collectionStats } from './lib/firebase/firestoreStats';
+import { checkReferences, ForeignKeySpec } from './lib/firebase/firestoreReferences';
+import { bulkImport, ColumnMapping } from './lib/firebase/firestoreBulkImport';
+import { explainQuery } from './lib/firebase/firestoreExplain';
+import { generateIndexes } from './lib/firebase/firestoreIndexes';
+import { listResources, listResourceTemplates, readResource, saveQuery, subscribeResource, unsubscribeAll, unsubscribeResource } from './lib/firebase/firestoreResources';
 import { listDirectoryFiles, getFileInfo } from './lib/firebase/storageClient';
 import { getUserByIdOrEmail } from './lib/firebase/authClient';
 
@@ -36,16 +57,22 @@ class FirebaseMcpServer {
       },
       {
         capabilities: {
-          tools: {}
+          tools: {},
+          resources: {
+            subscribe: true,
+            listChanged: true
+          }
         }
       }
     );
 
     this.setupToolHandlers();
+    this.setupResourceHandlers();
 
     // Set up error handling and graceful shutdown
     this.server.onerror = (error) => console.error('[MCP Error]', error);
     process.on('SIGINT', async () => {
+      unsubscribeAll();
       await this.server.close();
       process.exit(0);
     });
@@ -61,147 +88,1145 @@ class FirebaseMcpServer {
     this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
       tools: [
         {
-          name: 'firestore_add_document',
-          description: 'Add a document to a Firestore collection',
+          name: 'firestore_add_document',
+          description: 'Add a document to a Firestore collection. If a schema is registered for its path, an invalid document is not written and field-level errors are returned',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              collection: {
+                type: 'string',
+                description: 'Collection path, e.g. "users" or "users/u1/orders"'
+              },
+              data: {
+                type: 'object',
+                description: 'Document data. Special types use typed values, e.g. {"__type":"timestamp","value":"2024-01-01T00:00:00Z"}, {"__type":"reference","path":"users/u1"} or {"__type":"serverTimestamp"}'
+              },
+              database: {
+                type: 'string',
+                description: 'Firestore database ID for projects with named databases (default: the server default database)'
+              }
+            },
+            required: ['collection', 'data']
+          }
+        },
+        {
+          name: 'firestore_list_collections',
+          description: 'List collections in Firestore. If documentPath is provided, returns subcollections under that document; otherwise returns root collections.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+            documentPath: {
+              type: 'string',
+              description: 'Optional full path of the parent document, e.g. "users/u1"'
+            },
+            limit: {
+              type: 'number',
+              description: 'Number of collections to return',
+              default: 20
+            },
+            pageToken: {
+              type: 'string',
+              description: 'nextPageToken returned by the previous page'
+            },
+            readTime: {
+              type: 'string',
+              description: 'List the collections as they were at this RFC 3339 time, e.g. "2024-05-01T09:30:00Z". Must be within the point-in-time recovery window: the last hour, or whole minutes up to 7 days back when point-in-time recovery is enabled'
+            },
+            database: {
+              type: 'string',
+              description: 'Firestore database ID for projects with named databases (default: the server default database)'
+            }
+            },
+            required: []
+          }
+        },
+        {
+          name: 'firestore_list_documents',
+          description: 'List documents from a Firestore collection with optional filtering, ordering and cursor bounds',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              collection: {
+                type: 'string',
+                description: 'Collection path, e.g. "users" or "users/u1/orders"'
+              },
+              filters: {
+                type: 'array',
+                description: 'Array of filter conditions, combined with AND. An entry can also be a group { "and": [...] } or { "or": [...] } of conditions or further groups',
+                items: {
+                  type: 'object',
+                  properties: {
+                    field: {
+                      type: 'string',
+                      description: 'Field name to filter'
+                    },
+                    operator: {
+                      type: 'string',
+                      description: 'Comparison operator'
+                    },
+                    value: {
+                      type: 'any',
+                      description: 'Value to compare against (use {"__type":"timestamp","value":"<ISO date>"} for timestamps)'
+                    },
+                    and: {
+                      type: 'array',
+                      description: 'Filters that must all match',
+                      items: { type: 'object' }
+                    },
+                    or: {
+                      type: 'array',
+                      description: 'Filters of which at least one must match',
+                      items: { type: 'object' }
+                    }
+                  }
+                }
+              },
+              orderBy: {
+                type: 'array',
+                description: 'Fields to sort by, in priority order',
+                items: {
+                  type: 'object',
+                  properties: {
+                    field: {
+                      type: 'string',
+                      description: 'Field name to sort by'
+                    },
+                    direction: {
+                      type: 'string',
+                      enum: ['asc', 'desc'],
+                      description: 'Sort direction',
+                      default: 'asc'
+                    }
+                  },
+                  required: ['field']
+                }
+              },
+              startAt: {
+                type: 'array',
+                description: 'Values of the orderBy fields to start at (inclusive). Requires orderBy',
+                items: {}
+              },
+              endBefore: {
+                type: 'array',
+                description: 'Values of the orderBy fields to end before (exclusive). Requires orderBy',
+                items: {}
+              },
+            limit: {
+              type: 'number',
+              description: 'Number of documents to return',
+              default: 20
+            },
+            pageToken: {
+              type: 'string',
+              description: 'pageToken returned by the previous page. Only valid with the same filters and ordering'
+            },
+            select: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Field paths to return (dotted for nested fields); other fields are omitted'
+            },
+            maxResponseSize: {
+              type: 'number',
+              description: 'Maximum size of the returned documents in characters. Larger pages have long values truncated and are shortened, with a pageToken to continue'
+            },
+            explain: {
+              type: 'boolean',
+              description: 'Also return how the query was executed: indexes used, documents scanned versus returned, reads billed and execution time'
+            },
+            readTime: {
+              type: 'string',
+              description: 'Read the documents as they were at this RFC 3339 time, e.g. "2024-05-01T09:30:00Z". Must be within the point-in-time recovery window: the last hour, or whole minutes up to 7 days back when point-in-time recovery is enabled. Cannot be combined with explain'
+            },
+            database: {
+              type: 'string',
+              description: 'Firestore database ID for projects with named databases (default: the server default database)'
+            }
+            },
+            required: ['collection']
+          }
+        },
+        {
+          name: 'firestore_query_collection_group',
+          description: 'Query every collection with the given ID across all parent documents (e.g. all "comments" subcollections), with the same filtering, ordering and pagination as firestore_list_documents. Results include full document paths',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              collectionId: {
+                type: 'string',
+                description: 'Collection ID shared by the collections to query, without slashes (e.g. "comments")'
+              },
+              filters: {
+                type: 'array',
+                description: 'Filter conditions, using the same format as firestore_list_documents',
+                items: { type: 'object' }
+              },
+              orderBy: {
+                type: 'array',
+                description: 'Fields to sort by, in priority order',
+                items: {
+                  type: 'object',
+                  properties: {
+                    field: {
+                      type: 'string',
+                      description: 'Field name to sort by'
+                    },
+                    direction: {
+                      type: 'string',
+                      enum: ['asc', 'desc'],
+                      description: 'Sort direction',
+                      default: 'asc'
+                    }
+                  },
+                  required: ['field']
+                }
+              },
+              startAt: {
+                type: 'array',
+                description: 'Values of the orderBy fields to start at (inclusive). Requires orderBy',
+                items: {}
+              },
+              endBefore: {
+                type: 'array',
+                description: 'Values of the orderBy fields to end before (exclusive). Requires orderBy',
+                items: {}
+              },
+              limit: {
+                type: 'number',
+                description: 'Number of documents to return',
+                default: 20
+              },
+              pageToken: {
+                type: 'string',
+                description: 'pageToken returned by the previous page. Only valid with the same filters and ordering'
+              },
+              select: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Field paths to return (dotted for nested fields); other fields are omitted'
+              },
+              maxResponseSize: {
+                type: 'number',
+                description: 'Maximum size of the returned documents in characters. Larger pages have long values truncated and are shortened, with a pageToken to continue'
+              },
+              explain: {
+                type: 'boolean',
+                description: 'Also return how the query was executed: indexes used, documents scanned versus returned, reads billed and execution time'
+              },
+              database: {
+                type: 'string',
+                description: 'Firestore database ID for projects with named databases (default: the server default database)'
+              }
+            },
+            required: ['collectionId']
+          }
+        },
+        {
+          name: 'firestore_aggregate',
+          description: 'Compute count, sum and average over documents in a Firestore collection using server-side aggregation, optionally for several filter sets at once',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              collection: {
+                type: 'string',
+                description: 'Collection path, e.g. "users" or "users/u1/orders"'
+              },
+              aggregations: {
+                type: 'array',
+                description: 'Aggregations to compute. Defaults to a document count',
+                items: {
+                  type: 'object',
+                  properties: {
+                    type: {
+                      type: 'string',
+                      enum: ['count', 'sum', 'average'],
+                      description: 'Aggregation type'
+                    },
+                    field: {
+                      type: 'string',
+                      description: 'Field to aggregate (required for sum and average)'
+                    },
+                    alias: {
+                      type: 'string',
+                      description: 'Name of the result (defaults to e.g. "count" or "sum_total")'
+                    }
+                  },
+                  required: ['type']
+                }
+              },
+              filters: {
+                type: 'array',
+                description: 'Filter conditions applied to every group, using the same format as firestore_list_documents',
+                items: { type: 'object' }
+              },
+              groups: {
+                type: 'array',
+                description: 'Optional filter sets to aggregate separately in one call',
+                items: {
+                  type: 'object',
+                  properties: {
+                    name: {
+                      type: 'string',
+                      description: 'Name of the group in the results'
+                    },
+                    filters: {
+                      type: 'array',
+                      description: 'Filter conditions for this group',
+                      items: { type: 'object' }
+                    }
+                  }
+                }
+              },
+              database: {
+                type: 'string',
+                description: 'Firestore database ID for projects with named databases (default: the server default database)'
+              }
+            },
+            required: ['collection']
+          }
+        },
+        {
+          name: 'firestore_find_nearest',
+          description: 'Find the documents whose vector field is most similar to a query vector (vector similarity search over stored embeddings), nearest first with their distances. Requires a vector index on the field',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              collection: {
+                type: 'string',
+                description: 'Collection path, e.g. "articles" or "users/u1/notes"'
+              },
+              vectorField: {
+                type: 'string',
+                description: 'Field path of the stored vectors, e.g. "embedding"'
+              },
+              queryVector: {
+                type: 'array',
+                description: 'The query vector; must have the same dimension as the stored vectors',
+                items: { type: 'number' }
+              },
+              distanceMeasure: {
+                type: 'string',
+                enum: ['cosine', 'euclidean', 'dot_product'],
+                description: 'How distance is measured (default: cosine)'
+              },
+              limit: {
+                type: 'number',
+                description: 'Number of nearest documents to return, at most 1000 (default: 10)'
+              },
+              filters: {
+                type: 'array',
+                description: 'Pre-filters the documents must match before ranking, using the same format as firestore_list_documents',
+                items: { type: 'object' }
+              },
+              distanceThreshold: {
+                type: 'number',
+                description: 'Only return documents within this distance (for dot_product: with at least this similarity)'
+              },
+              includeVector: {
+                type: 'boolean',
+                description: 'Include the vector field in the returned documents (default: false)'
+              },
+              maxResponseSize: {
+                type: 'number',
+                description: 'Maximum size of the returned documents in characters. Long values are truncated and the result is shortened beyond it'
+              },
+              database: {
+                type: 'string',
+                description: 'Firestore database ID for projects with named databases (default: the server default database)'
+              }
+            },
+            required: ['collection', 'vectorField', 'queryVector']
+          }
+        },
+        {
+          name: 'firestore_get_document',
+          description: 'Get a document from Firestore by its full path, or by collection and ID',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              path: {
+                type: 'string',
+                description: 'Full document path, e.g. "users/u1/orders/o9". Use instead of collection and id'
+              },
+              collection: {
+                type: 'string',
+                description: 'Collection path, e.g. "users" or "users/u1/orders"'
+              },
+              id: {
+                type: 'string',
+                description: 'Document ID'
+              },
+              select: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Field paths to return (dotted for nested fields); other fields are omitted'
+              },
+              maxResponseSize: {
+                type: 'number',
+                description: 'Maximum size of the returned document in characters. Long values beyond it are truncated'
+              },
+              readTime: {
+                type: 'string',
+                description: 'Read the document as it was at this RFC 3339 time, e.g. "2024-05-01T09:30:00Z". Must be within the point-in-time recovery window: the last hour, or whole minutes up to 7 days back when point-in-time recovery is enabled'
+              },
+              database: {
+                type: 'string',
+                description: 'Firestore database ID for projects with named databases (default: the server default database)'
+              }
+            },
+            required: []
+          }
+        },
+        {
+          name: 'firestore_compare_versions',
+          description: 'Compare a document as it is now with its state at a past time within the point-in-time recovery window. Returns the field-level diff from the earlier version to the current one and the earlier version itself, to see what wrongly edited or deleted data used to be without restoring a backup',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              path: {
+                type: 'string',
+                description: 'Full document path, e.g. "users/u1/orders/o9". Use instead of collection and id'
+              },
+              collection: {
+                type: 'string',
+                description: 'Collection path, e.g. "users" or "users/u1/orders"'
+              },
+              id: {
+                type: 'string',
+                description: 'Document ID'
+              },
+              readTime: {
+                type: 'string',
+                description: 'RFC 3339 time to compare against, e.g. "2024-05-01T09:30:00Z". Must be within the last hour, or a whole minute up to 7 days back when point-in-time recovery is enabled'
+              },
+              maxResponseSize: {
+                type: 'number',
+                description: 'Maximum size of the returned earlier version in characters. Long values beyond it are truncated'
+              },
+              database: {
+                type: 'string',
+                description: 'Firestore database ID for projects with named databases (default: the server default database)'
+              }
+            },
+            required: ['readTime']
+          }
+        },
+        {
+          name: 'firestore_update_document',
+          description: 'Update a document in Firestore by its full path, or by collection and ID. If a schema is registered for its path, the updated document is validated before writing',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              path: {
+                type: 'string',
+                description: 'Full document path, e.g. "users/u1/orders/o9". Use instead of collection and id'
+              },
+              collection: {
+                type: 'string',
+                description: 'Collection path, e.g. "users" or "users/u1/orders"'
+              },
+              id: {
+                type: 'string',
+                description: 'Document ID'
+              },
+              data: {
+                type: 'object',
+                description: 'Updated document data. Special types use typed values, e.g. {"__type":"timestamp","value":"2024-01-01T00:00:00Z"}, {"__type":"increment","operand":1} or {"__type":"deleteField"}'
+              },
+              returnDiff: {
+                type: 'boolean',
+                description: 'Return a field-level diff (added, removed and changed field paths with old and new values) computed in a transaction',
+                default: false
+              },
+              database: {
+                type: 'string',
+                description: 'Firestore database ID for projects with named databases (default: the server default database)'
+              }
+            },
+            required: ['data']
+          }
+        },
+        {
+          name: 'firestore_set_document',
+          description: 'Create or overwrite a document with a chosen ID, by its full path or by collection and ID. Supports merging, create-only writes and an optimistic concurrency check against the updateTime returned by firestore_get_document. If a schema is registered for its path, the stored document is validated before writing',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              path: {
+                type: 'string',
+                description: 'Full document path, e.g. "users/u1/orders/o9". Use instead of collection and id'
+              },
+              collection: {
+                type: 'string',
+                description: 'Collection path, e.g. "users" or "users/u1/orders"'
+              },
+              id: {
+                type: 'string',
+                description: 'Document ID'
+              },
+              data: {
+                type: 'object',
+                description: 'Document data. Special types use typed values, e.g. {"__type":"timestamp","value":"2024-01-01T00:00:00Z"} or {"__type":"serverTimestamp"}'
+              },
+              merge: {
+                type: 'boolean',
+                description: 'Merge into the existing document instead of replacing it',
+                default: false
+              },
+              mergeFields: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Only write these field paths (dotted for nested fields); other fields are left untouched'
+              },
+              createOnly: {
+                type: 'boolean',
+                description: 'Fail if the document already exists',
+                default: false
+              },
+              lastUpdateTime: {
+                type: 'string',
+                description: 'Fail unless the document was last updated at exactly this time, e.g. the updateTime from firestore_get_document'
+              },
+              returnDiff: {
+                type: 'boolean',
+                description: 'Return a field-level diff (added, removed and changed field paths with old and new values) computed in a transaction',
+                default: false
+              },
+              database: {
+                type: 'string',
+                description: 'Firestore database ID for projects with named databases (default: the server default database)'
+              }
+            },
+            required: ['data']
+          }
+        },
+        {
+          name: 'firestore_delete_document',
+          description: 'Delete a document from Firestore by its full path, or by collection and ID',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              path: {
+                type: 'string',
+                description: 'Full document path, e.g. "users/u1/orders/o9". Use instead of collection and id'
+              },
+              collection: {
+                type: 'string',
+                description: 'Collection path, e.g. "users" or "users/u1/orders"'
+              },
+              id: {
+                type: 'string',
+                description: 'Document ID'
+              },
+              returnDiff: {
+                type: 'boolean',
+                description: 'Return the deleted fields as a field-level diff, read in the same transaction as the delete',
+                default: false
+              },
+              database: {
+                type: 'string',
+                description: 'Firestore database ID for projects with named databases (default: the server default database)'
+              }
+            },
+            required: []
+          }
+        },
+        {
+          name: 'firestore_delete_recursive',
+          description: 'Delete a document or collection including all descendant subcollections. Call without confirmationToken first for a dry run that reports how many documents per collection would be removed and returns a token; call again with that token to delete. The dry run counts each collection with an aggregation query but takes one request per document to find subcollections, so it looks up at most 1000 documents; when it stops early it reports complete: false and the counts of deeper collections are missing, though the deletion still removes them',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              path: {
+                type: 'string',
+                description: 'Document path (e.g. "users/u1") or collection path (e.g. "users/u1/orders") to delete'
+              },
+              confirmationToken: {
+                type: 'string',
+                description: 'Token returned by the dry run. Omit to preview the deletion'
+              },
+              database: {
+                type: 'string',
+                description: 'Firestore database ID for projects with named databases (default: the server default database)'
+              }
+            },
+            required: ['path']
+          }
+        },
+        {
+          name: 'firestore_update_where',
+          description: 'Apply a partial update to every document matching a query. Runs as a dry run by default, returning the number of matching documents and sample IDs; with dryRun false the documents are updated with a bulk writer and the response reports how many were updated and which failed. Writing is refused when more documents match than maxDocuments. Documents that would not match the schema registered for their path are skipped and reported',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              collection: {
+                type: 'string',
+                description: 'Collection path, e.g. "orders" or "users/u1/orders", or the collection ID when collectionGroup is true'
+              },
+              collectionGroup: {
+                type: 'boolean',
+                description: 'Match documents in every collection with this ID (default: false)'
+              },
+              filters: {
+                type: 'array',
+                description: 'Filter conditions selecting the documents, using the same format as firestore_list_documents',
+                items: { type: 'object' }
+              },
+              data: {
+                type: 'object',
+                description: 'Fields to update on each document; dotted keys update nested fields. Supports typed values and sentinels such as {"__type":"serverTimestamp"}'
+              },
+              dryRun: {
+                type: 'boolean',
+                description: 'Only report the number of matching documents and a sample of them (default: true). Set to false to write'
+              },
+              maxDocuments: {
+                type: 'number',
+                description: 'Refuse to write when more documents match (default: 500, at most 10000)'
+              },
+              database: {
+                type: 'string',
+                description: 'Firestore database ID for projects with named databases (default: the server default database)'
+              }
+            },
+            required: ['collection', 'filters', 'data']
+          }
+        },
+        {
+          name: 'firestore_delete_where',
+          description: 'Delete every document matching a query. Runs as a dry run by default, returning the number of matching documents and sample IDs; with dryRun false the documents are deleted with a bulk writer and the response reports how many were deleted and which failed. Deleting is refused when more documents match than maxDocuments. Subcollections are not deleted',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              collection: {
+                type: 'string',
+                description: 'Collection path, e.g. "orders" or "users/u1/orders", or the collection ID when collectionGroup is true'
+              },
+              collectionGroup: {
+                type: 'boolean',
+                description: 'Match documents in every collection with this ID (default: false)'
+              },
+              filters: {
+                type: 'array',
+                description: 'Filter conditions selecting the documents, using the same format as firestore_list_documents',
+                items: { type: 'object' }
+              },
+              dryRun: {
+                type: 'boolean',
+                description: 'Only report the number of matching documents and a sample of them (default: true). Set to false to write'
+              },
+              maxDocuments: {
+                type: 'number',
+                description: 'Refuse to write when more documents match (default: 500, at most 10000)'
+              },
+              database: {
+                type: 'string',
+                description: 'Firestore database ID for projects with named databases (default: the server default database)'
+              }
+            },
+            required: ['collection', 'filters']
+          }
+        },
+        {
+          name: 'firestore_copy',
+          description: 'Copy a document, optionally with all of its subcollections, to a new path or ID. Reference fields pointing inside the copied documents are rewritten to point at the copies. Fails if a target document exists unless overwrite is set',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              source: {
+                type: 'string',
+                description: 'Path of the document to copy, e.g. "users/alice"'
+              },
+              target: {
+                type: 'string',
+                description: 'Target document path, e.g. "archive/alice", or a new document ID in the same collection'
+              },
+              recursive: {
+                type: 'boolean',
+                description: 'Also copy every descendant subcollection of the document (default: false)'
+              },
+              overwrite: {
+                type: 'boolean',
+                description: 'Replace target documents that already exist instead of failing (default: false)'
+              },
+              database: {
+                type: 'string',
+                description: 'Firestore database ID for projects with named databases (default: the server default database)'
+              }
+            },
+            required: ['source', 'target']
+          }
+        },
+        {
+          name: 'firestore_move',
+          description: 'Move or rename a document, optionally with all of its subcollections. The documents are copied first, with references between them rewritten, and the source is deleted only after every copy has been written',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              source: {
+                type: 'string',
+                description: 'Path of the document to move, e.g. "users/alice"'
+              },
+              target: {
+                type: 'string',
+                description: 'Target document path, e.g. "archive/alice", or a new document ID in the same collection'
+              },
+              recursive: {
+                type: 'boolean',
+                description: 'Also move every descendant subcollection of the document (default: false)'
+              },
+              overwrite: {
+                type: 'boolean',
+                description: 'Replace target documents that already exist instead of failing (default: false)'
+              },
+              database: {
+                type: 'string',
+                description: 'Firestore database ID for projects with named databases (default: the server default database)'
+              }
+            },
+            required: ['source', 'target']
+          }
+        },
+        {
+          name: 'firestore_batch_write',
+          description: 'Atomically commit a list of create, set, update and delete operations across any document paths. Either all operations are applied or none; nothing is written if a document does not match the schema registered for its path',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              operations: {
+                type: 'array',
+                description: 'Operations to commit (at most 500)',
+                items: {
+                  type: 'object',
+                  properties: {
+                    type: {
+                      type: 'string',
+                      enum: ['create', 'set', 'update', 'delete'],
+                      description: 'Operation type'
+                    },
+                    path: {
+                      type: 'string',
+                      description: 'Full document path, e.g. "users/u1/orders/o9"'
+                    },
+                    data: {
+                      type: 'object',
+                      description: 'Document data for create, set and update, using typed values for special types'
+                    },
+                    merge: {
+                      type: 'boolean',
+                      description: 'For set, merge into the existing document instead of replacing it',
+                      default: false
+                    }
+                  },
+                  required: ['type', 'path']
+                }
+              },
+              database: {
+                type: 'string',
+                description: 'Firestore database ID for projects with named databases (default: the server default database)'
+              }
+            },
+            required: ['operations']
+          }
+        },
+        {
+          name: 'firestore_transaction',
+          description: 'Run a transaction that reads documents, applies only the operations whose conditions hold and commits atomically, retrying automatically on contention',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              operations: {
+                type: 'array',
+                description: 'Operations to apply (at most 500)',
+                items: {
+                  type: 'object',
+                  properties: {
+                    type: {
+                      type: 'string',
+                      enum: ['create', 'set', 'update', 'delete'],
+                      description: 'Operation type'
+                    },
+                    path: {
+                      type: 'string',
+                      description: 'Full document path, e.g. "users/u1/orders/o9"'
+                    },
+                    data: {
+                      type: 'object',
+                      description: 'Document data for create, set and update, using typed values for special types'
+                    },
+                    merge: {
+                      type: 'boolean',
+                      description: 'For set, merge into the existing document instead of replacing it',
+                      default: false
+                    },
+                    condition: {
+                      type: 'object',
+                      description: 'Apply the operation only if this condition holds on the document as read in the transaction',
+                      properties: {
+                        path: {
+                          type: 'string',
+                          description: 'Document to check (defaults to the operation path)'
+                        },
+                        exists: {
+                          type: 'boolean',
+                          description: 'Whether the document must exist'
+                        },
+                        field: {
+                          type: 'string',
+                          description: 'Field to compare'
+                        },
+                        operator: {
+                          type: 'string',
+                          description: 'Comparison operator'
+                        },
+                        value: {
+                          type: 'any',
+                          description: 'Value to compare against'
+                        }
+                      }
+                    }
+                  },
+                  required: ['type', 'path']
+                }
+              },
+              reads: {
+                type: 'array',
+                description: 'Additional document paths to read and return',
+                items: { type: 'string' }
+              },
+              maxAttempts: {
+                type: 'number',
+                description: 'Maximum number of attempts when documents change concurrently',
+                default: 5
+              },
+              database: {
+                type: 'string',
+                description: 'Firestore database ID for projects with named databases (default: the server default database)'
+              }
+            },
+            required: ['operations']
+          }
+        },
+        {
+          name: 'firestore_export',
+          description: 'Export the documents of a collection to a local NDJSON file with typed values preserved, optionally including all subcollections',
           inputSchema: {
             type: 'object',
             properties: {
               collection: {
                 type: 'string',
-                description: 'Collection name'
+                description: 'Collection path to export, e.g. "users" or "users/u1/orders"'
               },
-              data: {
-                type: 'object',
-                description: 'Document data'
+              outputPath: {
+                type: 'string',
+                description: 'Local file path to write the NDJSON export to'
+              },
+              recursive: {
+                type: 'boolean',
+                description: 'Also export the subcollections of every exported document',
+                default: false
+              },
+              database: {
+                type: 'string',
+                description: 'Firestore database ID for projects with named databases (default: the server default database)'
               }
             },
-            required: ['collection', 'data']
+            required: ['collection', 'outputPath']
           }
         },
         {
-          name: 'firestore_list_collections',
-          description: 'List collections in Firestore. If documentPath is provided, returns subcollections under that document; otherwise returns root collections.',
+          name: 'firestore_import',
+          description: 'Import documents from an NDJSON file created by firestore_export, writing each document back to its recorded path. Reports progress when the client requests it',
           inputSchema: {
             type: 'object',
             properties: {
-            documentPath: {
-              type: 'string',
-              description: 'Optional parent document path'
-            },
-            limit: {
-              type: 'number',
-              description: 'Number of collections to return',
-              default: 20
-            },
-            pageToken: {
-              type: 'string',
-              description: 'Token for pagination to get the next page of results'
-            }
+              inputPath: {
+                type: 'string',
+                description: 'Local NDJSON file to import'
+              },
+              merge: {
+                type: 'boolean',
+                description: 'Merge into existing documents instead of replacing them',
+                default: false
+              },
+              database: {
+                type: 'string',
+                description: 'Firestore database ID for projects with named databases (default: the server default database)'
+              }
             },
-            required: []
+            required: ['inputPath']
           }
         },
         {
-          name: 'firestore_list_documents',
-          description: 'List documents from a Firestore collection with optional filtering',
+          name: 'firestore_bulk_import',
+          description: 'Import the rows of a local CSV, JSON array or NDJSON file into a collection, one document per row, with column-to-field mapping and type coercion. Writes in bulk, reports progress and returns an error report for rows that failed',
           inputSchema: {
             type: 'object',
             properties: {
+              inputPath: {
+                type: 'string',
+                description: 'Local file to read'
+              },
               collection: {
                 type: 'string',
-                description: 'Collection name'
+                description: 'Collection path to write to, e.g. "products"'
               },
-              filters: {
+              format: {
+                type: 'string',
+                enum: ['csv', 'json', 'ndjson'],
+                description: 'File format. Defaults to the file extension'
+              },
+              idColumn: {
+                type: 'string',
+                description: 'Column holding the document ID. IDs are generated when omitted'
+              },
+              columns: {
                 type: 'array',
-                description: 'Array of filter conditions',
+                description: 'Columns to import. All columns are imported when omitted',
                 items: {
                   type: 'object',
                   properties: {
+                    column: {
+                      type: 'string',
+                      description: 'Column name (CSV header) or key (JSON)'
+                    },
                     field: {
                       type: 'string',
-                      description: 'Field name to filter'
+                      description: 'Target field path, dotted for nested fields. Defaults to the column name'
                     },
-                    operator: {
+                    type: {
                       type: 'string',
-                      description: 'Comparison operator'
+                      enum: ['auto', 'raw', 'string', 'number', 'integer', 'boolean', 'timestamp', 'reference', 'json'],
+                      description: 'Coercion rule. "auto" (CSV default) detects numbers, booleans and ISO dates; "raw" (JSON default) keeps values as read'
                     },
-                    value: {
-                      type: 'any',
-                      description: 'Value to compare against (use ISO format for dates)'
+                    referenceCollection: {
+                      type: 'string',
+                      description: 'Collection path for reference columns that hold bare document IDs'
                     }
                   },
-                  required: ['field', 'operator', 'value']
+                  required: ['column']
                 }
               },
-            limit: {
-              type: 'number',
-              description: 'Number of documents to return',
-              default: 20
+              merge: {
+                type: 'boolean',
+                description: 'Merge into existing documents instead of replacing them',
+                default: false
+              },
+              delimiter: {
+                type: 'string',
+                description: 'CSV field delimiter',
+                default: ','
+              },
+              database: {
+                type: 'string',
+                description: 'Firestore database ID for projects with named databases (default: the server default database)'
+              }
             },
-            pageToken: {
-              type: 'string',
-              description: 'Token for pagination to get the next page of results'
-            }
+            required: ['inputPath', 'collection']
+          }
+        },
+        {
+          name: 'firestore_infer_schema',
+          description: 'Infer the schema of a collection or collection group from a sample of documents: field paths, observed types, presence percentage, example values and referenced collections',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              collection: {
+                type: 'string',
+                description: 'Collection path, or a collection ID when collectionGroup is true'
+              },
+              sampleSize: {
+                type: 'number',
+                description: 'Maximum number of documents to sample (at most 10000)',
+                default: 100
+              },
+              collectionGroup: {
+                type: 'boolean',
+                description: 'Sample every collection with this ID across all parent documents',
+                default: false
+              },
+              database: {
+                type: 'string',
+                description: 'Firestore database ID for projects with named databases (default: the server default database)'
+              }
             },
             required: ['collection']
           }
         },
         {
-          name: 'firestore_get_document',
-          description: 'Get a document from a Firestore collection',
+          name: 'firestore_collection_stats',
+          description: 'Report statistics about a collection or collection group for capacity planning: document count, average, largest and estimated total document size, values of low-cardinality fields, oldest and newest documents by a timestamp field, and subcollection names found on sampled documents',
           inputSchema: {
             type: 'object',
             properties: {
               collection: {
                 type: 'string',
-                description: 'Collection name'
+                description: 'Collection path, or a collection ID when collectionGroup is true'
               },
-              id: {
+              sampleSize: {
+                type: 'number',
+                description: 'Maximum number of documents to sample for sizes, field values and subcollections (at most 10000). Listing subcollections takes one request per sampled document',
+                default: 100
+              },
+              timestampField: {
                 type: 'string',
-                description: 'Document ID'
+                description: 'Timestamp field to find the oldest and newest documents by'
+              },
+              collectionGroup: {
+                type: 'boolean',
+                description: 'Report on every collection with this ID across all parent documents',
+                default: false
+              },
+              database: {
+                type: 'string',
+                description: 'Firestore database ID for projects with named databases (default: the server default database)'
               }
             },
-            required: ['collection', 'id']
+            required: ['collection']
           }
         },
         {
-          name: 'firestore_update_document',
-          description: 'Update a document in a Firestore collection',
+          name: 'firestore_check_references',
+          description: 'Scan a collection for links to documents that do not exist: DocumentReference fields at any depth and string fields declared as foreign keys. Reports the links checked and dangling per field, and the paths of the dangling references',
           inputSchema: {
             type: 'object',
             properties: {
               collection: {
                 type: 'string',
-                description: 'Collection name'
+                description: 'Collection path, or a collection ID when collectionGroup is true'
               },
-              id: {
+              foreignKeys: {
+                type: 'array',
+                description: 'String fields holding document IDs of another collection, e.g. [{"field":"userId","collection":"users"}]. The field may hold an ID or an array of IDs',
+                items: {
+                  type: 'object',
+                  properties: {
+                    field: { type: 'string', description: 'Dotted field path' },
+                    collection: { type: 'string', description: 'Collection path the IDs belong to' }
+                  },
+                  required: ['field', 'collection']
+                }
+              },
+              limit: {
+                type: 'number',
+                description: 'Maximum number of documents to scan (default: 1000, at most 10000)'
+              },
+              collectionGroup: {
+                type: 'boolean',
+                description: 'Scan every collection with this ID across all parent documents',
+                default: false
+              },
+              database: {
                 type: 'string',
-                description: 'Document ID'
+                description: 'Firestore database ID for projects with named databases (default: the server default database)'
+              }
+            },
+            required: ['collection']
+          }
+        },
+        {
+          name: 'firestore_save_query',
+          description: 'Save a named query so it can be read and subscribed to as the MCP resource firestore://query/{name}. Subscribers are notified whenever the query results change. Documents can be watched directly as firestore://document/{path}',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              name: {
+                type: 'string',
+                description: 'Query name used in the resource URI. Saving an existing name replaces the query'
               },
-              data: {
-                type: 'object',
-                description: 'Updated document data'
+              collection: {
+                type: 'string',
+                description: 'Collection path, e.g. "jobs" or "users/u1/orders"'
+              },
+              filters: {
+                type: 'array',
+                description: 'Filter conditions, using the same format as firestore_list_documents',
+                items: { type: 'object' }
+              },
+              orderBy: {
+                type: 'array',
+                description: 'Fields to sort by, in priority order, as { "field": string, "direction": "asc" | "desc" }',
+                items: { type: 'object' }
+              },
+              limit: {
+                type: 'number',
+                description: 'Maximum number of documents in the resource',
+                default: 20
+              },
+              database: {
+                type: 'string',
+                description: 'Firestore database ID for projects with named databases (default: the server default database)'
               }
             },
-            required: ['collection', 'id', 'data']
+            required: ['name', 'collection']
           }
         },
         {
-          name: 'firestore_delete_document',
-          description: 'Delete a document from a Firestore collection',
+          name: 'firestore_generate_indexes',
+          description: 'Write the composite indexes that queries against a database in this session reported as missing to a firestore.indexes.json file, merging with the indexes already in it. Deploy the file with "firebase deploy --only firestore:indexes"',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              outputPath: {
+                type: 'string',
+                description: 'Path of the index file',
+                default: 'firestore.indexes.json'
+              },
+              database: {
+                type: 'string',
+                description: 'Firestore database ID whose missing indexes are written (default: the server default database)'
+              }
+            },
+            required: []
+          }
+        },
+        {
+          name: 'firestore_explain_query',
+          description: 'Explain how Firestore executes a query without returning its documents: the indexes used, index entries and documents scanned versus returned, read operations billed and execution time, with notes on why it may be slow or expensive',
           inputSchema: {
             type: 'object',
             properties: {
               collection: {
                 type: 'string',
-                description: 'Collection name'
+                description: 'Collection path, e.g. "users" or "users/u1/orders", or the collection ID when collectionGroup is true'
               },
-              id: {
+              collectionGroup: {
+                type: 'boolean',
+                description: 'Query every collection with this ID, as firestore_query_collection_group does (default: false)'
+              },
+              filters: {
+                type: 'array',
+                description: 'Filter conditions, using the same format as firestore_list_documents',
+                items: { type: 'object' }
+              },
+              orderBy: {
+                type: 'array',
+                description: 'Fields to sort by, in priority order, e.g. [{"field":"createdAt","direction":"desc"}]',
+                items: { type: 'object' }
+              },
+              startAt: {
+                type: 'array',
+                description: 'Values of the orderBy fields to start at (inclusive)',
+                items: {}
+              },
+              endBefore: {
+                type: 'array',
+                description: 'Values of the orderBy fields to end before (exclusive)',
+                items: {}
+              },
+              limit: {
+                type: 'number',
+                description: 'Number of documents the query returns (default: 20)'
+              },
+              analyze: {
+                type: 'boolean',
+                description: 'Execute the query to collect execution statistics; the reads are billed (default: true). When false only the indexes used are returned'
+              },
+              database: {
                 type: 'string',
-                description: 'Document ID'
+                description: 'Firestore database ID for projects with named databases (default: the server default database)'
               }
             },
-            required: ['collection', 'id']
+            required: ['collection']
           }
         },
         {
@@ -252,34 +1277,269 @@ class FirebaseMcpServer {
     // Handle tool execution requests
     this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
       const { name, arguments: args = {} } = request.params;
+      const onProgress = this.createProgressCallback(request.params._meta?.progressToken);
       
       // Route the request to the appropriate handler based on the tool name
       switch (name) {
         case 'firestore_add_document':
-          return addDocument(args.collection as string, args.data as object);
+          return addDocument(args.collection as string, args.data as object, args.database as string | undefined);
           
         case 'firestore_list_documents':
           return listDocuments(
             args.collection as string,
-            args.filters as Array<{ field: string, operator: FirebaseFirestore.WhereFilterOp, value: any }>,
+            args.filters as FilterSpec[],
             args.limit as number,
-            args.pageToken as string | undefined
+            args.pageToken as string | undefined,
+            {
+              orderBy: args.orderBy as OrderBySpec[] | undefined,
+              startAt: args.startAt as any[] | undefined,
+              endBefore: args.endBefore as any[] | undefined,
+              select: args.select as string[] | undefined
+            },
+            args.maxResponseSize as number | undefined,
+            args.explain as boolean | undefined,
+            args.readTime as string | undefined,
+            args.database as string | undefined
+          );
+          
+        case 'firestore_query_collection_group':
+          return queryCollectionGroup(
+            args.collectionId as string,
+            args.filters as FilterSpec[],
+            args.limit as number,
+            args.pageToken as string | undefined,
+            {
+              orderBy: args.orderBy as OrderBySpec[] | undefined,
+              startAt: args.startAt as any[] | undefined,
+              endBefore: args.endBefore as any[] | undefined,
+              select: args.select as string[] | undefined
+            },
+            args.maxResponseSize as number | undefined,
+            args.explain as boolean | undefined,
+            args.database as string | undefined
+          );
+          
+        case 'firestore_aggregate':
+          return aggregateDocuments(
+            args.collection as string,
+            args.aggregations as AggregationSpec[] | undefined,
+            args.filters as FilterSpec[] | undefined,
+            args.groups as Array<{ name?: string, filters?: FilterSpec[] }> | undefined,
+            args.database as string | undefined
+          );
+          
+        case 'firestore_find_nearest':
+          return findNearestDocuments(
+            args.collection as string,
+            args.vectorField as string,
+            args.queryVector as number[],
+            {
+              distanceMeasure: args.distanceMeasure as FindNearestOptions['distanceMeasure'],
+              limit: args.limit as number | undefined,
+              filters: args.filters as FilterSpec[] | undefined,
+              distanceThreshold: args.distanceThreshold as number | undefined,
+              includeVector: args.includeVector as boolean | undefined
+            },
+            args.maxResponseSize as number | undefined,
+            args.database as string | undefined
           );
           
         case 'firestore_get_document':
-          return getDocument(args.collection as string, args.id as string);
+          return getDocument(
+            (args.path || args.collection) as string,
+            args.id as string | undefined,
+            args.select as string[] | undefined,
+            args.maxResponseSize as number | undefined,
+            args.readTime as string | undefined,
+            args.database as string | undefined
+          );
+          
+        case 'firestore_compare_versions':
+          return compareVersions(
+            (args.path || args.collection) as string,
+            args.id as string | undefined,
+            args.readTime as string,
+            args.maxResponseSize as number | undefined,
+            args.database as string | undefined
+          );
           
         case 'firestore_update_document':
-          return updateDocument(args.collection as string, args.id as string, args.data as object);
+          return updateDocument((args.path || args.collection) as string, args.id as string | undefined, args.data as object, args.returnDiff as boolean | undefined, args.database as string | undefined);
+          
+        case 'firestore_set_document':
+          return setDocument((args.path || args.collection) as string, args.id as string | undefined, args.data as object, {
+            merge: args.merge as boolean | undefined,
+            mergeFields: args.mergeFields as string[] | undefined,
+            createOnly: args.createOnly as boolean | undefined,
+            lastUpdateTime: args.lastUpdateTime as string | undefined,
+            returnDiff: args.returnDiff as boolean | undefined
+          }, args.database as string | undefined);
           
         case 'firestore_delete_document':
-          return deleteDocument(args.collection as string, args.id as string);
+          return deleteDocument((args.path || args.collection) as string, args.id as string | undefined, args.returnDiff as boolean | undefined, args.database as string | undefined);
           
         case 'firestore_list_collections':
           return list_collections(
             args.documentPath as string | undefined,
             args.limit as number | undefined,
-            args.pageToken as string | undefined
+            args.pageToken as string | undefined,
+            args.readTime as string | undefined,
+            args.database as string | undefined
+          );
+          
+        case 'firestore_delete_recursive':
+          return deleteRecursive(args.path as string, args.confirmationToken as string | undefined, args.database as string | undefined);
+          
+        case 'firestore_update_where':
+          return updateWhere(
+            args.collection as string,
+            args.filters as FilterSpec[],
+            args.data as object,
+            {
+              dryRun: args.dryRun as boolean | undefined,
+              maxDocuments: args.maxDocuments as number | undefined,
+              collectionGroup: args.collectionGroup as boolean | undefined
+            },
+            onProgress,
+            args.database as string | undefined
+          );
+          
+        case 'firestore_delete_where':
+          return deleteWhere(
+            args.collection as string,
+            args.filters as FilterSpec[],
+            {
+              dryRun: args.dryRun as boolean | undefined,
+              maxDocuments: args.maxDocuments as number | undefined,
+              collectionGroup: args.collectionGroup as boolean | undefined
+            },
+            onProgress,
+            args.database as string | undefined
+          );
+          
+        case 'firestore_copy':
+          return copyDocument(
+            args.source as string,
+            args.target as string,
+            {
+              recursive: args.recursive as boolean | undefined,
+              overwrite: args.overwrite as boolean | undefined
+            },
+            onProgress,
+            args.database as string | undefined
+          );
+          
+        case 'firestore_move':
+          return moveDocument(
+            args.source as string,
+            args.target as string,
+            {
+              recursive: args.recursive as boolean | undefined,
+              overwrite: args.overwrite as boolean | undefined
+            },
+            onProgress,
+            args.database as string | undefined
+          );
+          
+        case 'firestore_batch_write':
+          return batchWrite(args.operations as WriteOperation[], args.database as string | undefined);
+          
+        case 'firestore_transaction':
+          return transactionalWrite(
+            args.operations as WriteOperation[],
+            args.reads as string[] | undefined,
+            args.maxAttempts as number | undefined,
+            args.database as string | undefined
+          );
+          
+        case 'firestore_export':
+          return exportCollection(
+            args.collection as string,
+            args.outputPath as string,
+            args.recursive as boolean | undefined,
+            args.database as string | undefined
+          );
+          
+        case 'firestore_import':
+          return importCollection(
+            args.inputPath as string,
+            args.merge as boolean | undefined,
+            onProgress,
+            args.database as string | undefined
+          );
+          
+        case 'firestore_bulk_import':
+          return bulkImport(
+            args.inputPath as string,
+            args.collection as string,
+            {
+              format: args.format as 'csv' | 'json' | 'ndjson' | undefined,
+              idColumn: args.idColumn as string | undefined,
+              columns: args.columns as ColumnMapping[] | undefined,
+              merge: args.merge as boolean | undefined,
+              delimiter: args.delimiter as string | undefined
+            },
+            onProgress,
+            args.database as string | undefined
+          );
+          
+        case 'firestore_infer_schema':
+          return inferSchema(
+            args.collection as string,
+            args.sampleSize as number | undefined,
+            args.collectionGroup as boolean | undefined,
+            args.database as string | undefined
+          );
+          
+        case 'firestore_collection_stats':
+          return collectionStats(
+            args.collection as string,
+            args.sampleSize as number | undefined,
+            args.timestampField as string | undefined,
+            args.collectionGroup as boolean | undefined,
+            args.database as string | undefined
+          );
+          
+        case 'firestore_check_references':
+          return checkReferences(
+            args.collection as string,
+            args.foreignKeys as ForeignKeySpec[] | undefined,
+            args.limit as number | undefined,
+            args.collectionGroup as boolean | undefined,
+            args.database as string | undefined
+          );
+          
+        case 'firestore_save_query': {
+          const result = await saveQuery(
+            args.name as string,
+            args.collection as string,
+            args.filters as FilterSpec[] | undefined,
+            args.limit as number | undefined,
+            { orderBy: args.orderBy as OrderBySpec[] | undefined },
+            args.database as string | undefined
+          );
+          if (!result.isError) {
+            await this.server.sendResourceListChanged();
+          }
+          return result;
+        }
+          
+        case 'firestore_generate_indexes':
+          return generateIndexes(args.outputPath as string | undefined, args.database as string | undefined);
+          
+        case 'firestore_explain_query':
+          return explainQuery(
+            args.collection as string,
+            args.filters as FilterSpec[] | undefined,
+            args.limit as number | undefined,
+            {
+              orderBy: args.orderBy as OrderBySpec[] | undefined,
+              startAt: args.startAt as any[] | undefined,
+              endBefore: args.endBefore as any[] | undefined
+            },
+            args.analyze as boolean | undefined,
+            args.collectionGroup as boolean | undefined,
+            args.database as string | undefined
           );
           
         case 'auth_get_user':
@@ -301,6 +1561,66 @@ class FirebaseMcpServer {
     });
   }
 
+  /**
+   * Registers Firestore documents and saved queries as MCP resources that clients can
+   * read and subscribe to. Changes to subscribed resources are sent to the client as
+   * resource updated notifications.
+   * @private
+   */
+  private setupResourceHandlers() {
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+      resources: listResources()
+    }));
+
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: listResourceTemplates()
+    }));
+
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      try {
+        return await readResource(request.params.uri);
+      } catch (error) {
+        throw new McpError(ErrorCode.InvalidParams, (error as Error).message);
+      }
+    });
+
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      const { uri } = request.params;
+      try {
+        subscribeResource(uri, () => {
+          this.server.sendResourceUpdated({ uri }).catch((error) => console.error('[MCP Error]', error));
+        });
+      } catch (error) {
+        throw new McpError(ErrorCode.InvalidParams, (error as Error).message);
+      }
+      return {};
+    });
+
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      unsubscribeResource(request.params.uri);
+      return {};
+    });
+  }
+
+  /**
+   * Creates a callback that forwards progress of a long-running tool to the client
+   * as MCP progress notifications.
+   * @param {string|number} [progressToken] - The progress token sent by the client, if any
+   * @returns {ProgressCallback|undefined} The callback, or undefined if the client did not request progress
+   * @private
+   */
+  private createProgressCallback(progressToken?: string | number): ProgressCallback | undefined {
+    if (progressToken === undefined) {
+      return undefined;
+    }
+    return (progress, total) => {
+      this.server.notification({
+        method: 'notifications/progress',
+        params: { progressToken, progress, total }
+      }).catch((error) => console.error('[MCP Error]', error));
+    };
+  }
+
   /**
    * Starts the MCP server using stdio transport.
    * This method connects the server to stdin/stdout for communication with MCP clients.
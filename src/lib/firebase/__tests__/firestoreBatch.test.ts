@@ -0,0 +1,97 @@
+import { batchWrite, transactionalWrite } from '../firestoreBatch';
+import { admin } from '../firebaseConfig';
+
+/**
+ * Firestore Batch and Transaction Tests
+ *
+ * These tests verify that batch writes and transactions are applied atomically.
+ * Tests run against the Firebase emulator when available.
+ */
+describe('Firestore Batch and Transactions', () => {
+  const collectionName = 'test_batch_collection';
+
+  // Setup: Remove documents left over from previous runs
+  beforeAll(async () => {
+    try {
+      const db = admin.firestore();
+      const snapshot = await db.collection(collectionName).get();
+      const batch = db.batch();
+      snapshot.docs.forEach(doc => {
+        batch.delete(doc.ref);
+      });
+      await batch.commit();
+    } catch (error) {
+      console.error('Error in test cleanup:', error);
+    }
+  });
+
+  // Test committing a batch
+  it('should commit all operations of a batch', async () => {
+    const result = await batchWrite([
+      { type: 'create', path: `${collectionName}/a`, data: { balance: 100 } },
+      { type: 'set', path: `${collectionName}/b`, data: { balance: 0 } },
+      { type: 'set', path: `${collectionName}/a/history/h1`, data: { note: 'opened' } }
+    ]);
+
+    // Verify the response format
+    expect(result.isError).toBeUndefined();
+    const responseData = JSON.parse(result.content[0].text);
+    expect(responseData.committed).toBe(3);
+
+    // Verify the documents were written
+    const db = admin.firestore();
+    const history = await db.doc(`${collectionName}/a/history/h1`).get();
+    expect(history.get('note')).toBe('opened');
+  });
+
+  // Test atomicity
+  it('should not apply any operation when one fails', async () => {
+    const result = await batchWrite([
+      { type: 'update', path: `${collectionName}/a`, data: { balance: 50 } },
+      { type: 'update', path: `${collectionName}/missing`, data: { balance: 50 } }
+    ]);
+
+    // Verify the error response and that the first update was not applied
+    expect(result.isError).toBe(true);
+    const db = admin.firestore();
+    const account = await db.doc(`${collectionName}/a`).get();
+    expect(account.get('balance')).toBe(100);
+  });
+
+  // Test conditional transaction writes
+  it('should only apply transaction operations whose conditions hold', async () => {
+    const result = await transactionalWrite([
+      {
+        type: 'update',
+        path: `${collectionName}/a`,
+        data: { balance: { __type: 'increment', operand: -30 } },
+        condition: { field: 'balance', operator: '>=', value: 30 }
+      },
+      {
+        type: 'update',
+        path: `${collectionName}/b`,
+        data: { balance: { __type: 'increment', operand: -30 } },
+        condition: { field: 'balance', operator: '>=', value: 30 }
+      }
+    ], [`${collectionName}/a/history/h1`]);
+
+    // Verify the response format
+    expect(result.isError).toBeUndefined();
+    const responseData = JSON.parse(result.content[0].text);
+    expect(responseData.applied).toEqual([{ type: 'update', path: `${collectionName}/a` }]);
+    expect(responseData.skipped).toEqual([{ type: 'update', path: `${collectionName}/b` }]);
+    expect(responseData.reads).toHaveLength(3);
+
+    // Verify only the first account changed
+    const db = admin.firestore();
+    expect((await db.doc(`${collectionName}/a`).get()).get('balance')).toBe(70);
+    expect((await db.doc(`${collectionName}/b`).get()).get('balance')).toBe(0);
+  });
+
+  // Test validation
+  it('should reject empty operation lists', async () => {
+    const result = await batchWrite([]);
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toBe('Error committing batch: At least one operation is required');
+  });
+});
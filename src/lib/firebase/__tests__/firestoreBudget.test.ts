@@ -0,0 +1,50 @@
+import { fitDocuments } from '../firestoreBudget';
+import { decodeValue } from '../firestoreCodec';
+import { admin } from '../firebaseConfig';
+
+/**
+ * Firestore Response Budget Tests
+ *
+ * These tests verify that pages of encoded documents are truncated and shortened
+ * to fit a maximum serialized size. No Firestore requests are made.
+ */
+describe('Firestore Response Budget', () => {
+  const page: Array<{ id: string, document: any }> = [
+    { id: 'a', document: { title: 'A', blob: 'x'.repeat(5000), tags: Array.from({ length: 30 }, (_, i) => i) } },
+    { id: 'b', document: { title: 'B', blob: 'y'.repeat(5000) } },
+    { id: 'c', document: { title: 'C', blob: 'z'.repeat(5000) } }
+  ];
+
+  // Test pages within the budget
+  it('should leave pages within the budget unchanged', () => {
+    const result = fitDocuments(page, 100000);
+    expect(result).toEqual({ documents: page, truncated: false, shortened: false });
+  });
+
+  // Test truncation markers and shortening
+  it('should truncate large values and shorten the page', () => {
+    const result = fitDocuments(page, 2500);
+
+    expect(result.truncated).toBe(true);
+    expect(result.shortened).toBe(true);
+    expect(result.documents.map(entry => entry.id)).toEqual(['a', 'b']);
+
+    const [first] = result.documents;
+    expect(first.document.title).toBe('A');
+    expect(first.document.blob).toEqual({ __type: 'truncated', type: 'string', length: 5000, preview: 'x'.repeat(1000) });
+    expect(first.document.tags).toMatchObject({ __type: 'truncated', type: 'array', length: 30 });
+    expect(first.document.tags.preview).toHaveLength(20);
+  });
+
+  // Test that progress is always possible
+  it('should always keep the first document', () => {
+    const result = fitDocuments(page, 10);
+    expect(result.documents.map(entry => entry.id)).toEqual(['a']);
+  });
+
+  // Test that markers cannot be written back
+  it('should reject truncation markers in written data', () => {
+    const marker = fitDocuments(page, 2500).documents[0].document.blob;
+    expect(() => decodeValue(marker, admin.firestore(), { allowSentinels: true })).toThrow('Truncated values cannot be written');
+  });
+});
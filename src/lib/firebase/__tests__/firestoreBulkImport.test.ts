@@ -0,0 +1,113 @@
+import { bulkImport, coerceValue, parseCsv } from '../firestoreBulkImport';
+import { admin } from '../firebaseConfig';
+import { DocumentReference, Timestamp } from 'firebase-admin/firestore';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+/**
+ * Firestore Bulk Import Tests
+ *
+ * These tests verify CSV parsing, type coercion and importing rows into a collection.
+ * The import test runs against the Firebase emulator when available.
+ */
+describe('Firestore Bulk Import', () => {
+  const db = admin.firestore();
+  const collectionName = 'test_bulk_import_collection';
+
+  // Test CSV parsing
+  it('should parse quoted CSV fields with delimiters, quotes and line breaks', () => {
+    const records = parseCsv('\uFEFFsku,name,notes\r\nA1,"Desk, oak","Say ""hi""\nthere"\r\n\r\nB2,Lamp,\n');
+
+    expect(records).toEqual([
+      ['sku', 'name', 'notes'],
+      ['A1', 'Desk, oak', 'Say "hi"\nthere'],
+      ['B2', 'Lamp', '']
+    ]);
+    expect(() => parseCsv('a\n"open')).toThrow('unterminated quoted field');
+  });
+
+  // Test coercion rules
+  it('should coerce values by column type', () => {
+    expect(coerceValue('42', { column: 'n' }, 'auto', db)).toBe(42);
+    expect(coerceValue('02134', { column: 'zip' }, 'auto', db)).toBe('02134');
+    expect(coerceValue('false', { column: 'b' }, 'auto', db)).toBe(false);
+    expect(coerceValue('2024-01-01', { column: 'd' }, 'auto', db)).toEqual(Timestamp.fromMillis(Date.UTC(2024, 0, 1)));
+    expect(coerceValue('2024-01-01T10:00', { column: 'd' }, 'auto', db)).toEqual(Timestamp.fromMillis(Date.UTC(2024, 0, 1, 10)));
+    expect(coerceValue('2024-01-01T10:00:00+02:00', { column: 'd' }, 'auto', db)).toEqual(Timestamp.fromMillis(Date.UTC(2024, 0, 1, 8)));
+    expect(coerceValue('2024-01-01T10:00:00.5', { column: 'd', type: 'timestamp' }, 'auto', db)).toEqual(Timestamp.fromMillis(Date.UTC(2024, 0, 1, 10, 0, 0, 500)));
+    expect(coerceValue('', { column: 'empty' }, 'auto', db)).toBeUndefined();
+
+    expect(coerceValue('yes', { column: 'b', type: 'boolean' }, 'auto', db)).toBe(true);
+    expect(coerceValue('42', { column: 'n', type: 'string' }, 'auto', db)).toBe('42');
+    expect(() => coerceValue('4.5', { column: 'n', type: 'integer' }, 'auto', db)).toThrow('is not an integer');
+    expect(() => coerceValue('abc', { column: 'n', type: 'number' }, 'auto', db)).toThrow('is not a number');
+
+    const reference = coerceValue('v1', { column: 'vendor', type: 'reference', referenceCollection: 'vendors' }, 'auto', db);
+    expect(reference).toBeInstanceOf(DocumentReference);
+    expect(reference.path).toBe('vendors/v1');
+    expect(() => coerceValue('v1', { column: 'vendor', type: 'reference' }, 'auto', db)).toThrow('set referenceCollection');
+  });
+
+  // Test importing a CSV file
+  it('should import rows and report the rows that failed', async () => {
+    await db.recursiveDelete(db.collection(collectionName));
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'firestore-bulk-')), 'products.csv');
+    fs.writeFileSync(file, 'sku,price,launched,vendor\nA1,9.5,2024-01-01,v1\nB2,cheap,2024-02-01,v2\n,1,2024-03-01,v3\n');
+
+    const progress: number[] = [];
+    const result = await bulkImport(file, collectionName, {
+      idColumn: 'sku',
+      columns: [
+        { column: 'sku' },
+        { column: 'price', type: 'number' },
+        { column: 'launched', field: 'dates.launched', type: 'timestamp' },
+        { column: 'vendor', type: 'reference', referenceCollection: 'vendors' }
+      ]
+    }, processed => progress.push(processed));
+
+    expect(result.isError).toBeUndefined();
+    const report = JSON.parse(result.content[0].text);
+    expect(report).toMatchObject({ rows: 3, written: 1, failed: 2 });
+    expect(report.failures).toEqual([
+      { row: 2, id: 'B2', error: "Column 'price': 'cheap' is not a number" },
+      { row: 3, error: "Invalid document ID '' in column 'sku'" }
+    ]);
+    expect(progress[progress.length - 1]).toBe(3);
+
+    const doc = await db.doc(`${collectionName}/A1`).get();
+    expect(doc.get('price')).toBe(9.5);
+    expect(doc.get('dates.launched')).toBeInstanceOf(Timestamp);
+    expect(doc.get('vendor').path).toBe('vendors/v1');
+  });
+
+  // Test schema validation of imported rows
+  it('should skip and report rows that do not match the registered schema', async () => {
+    await db.recursiveDelete(db.collection(collectionName));
+    const configPath = path.join(os.tmpdir(), `firestore-bulk-import-schemas-${process.pid}.json`);
+    fs.writeFileSync(configPath, JSON.stringify({ schemas: {
+      [`${collectionName}/{id}`]: { type: 'object', required: ['price'], properties: { price: { type: 'number', minimum: 0 } } }
+    } }));
+    process.env.FIRESTORE_SCHEMA_CONFIG = configPath;
+    try {
+      const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'firestore-bulk-')), 'products.csv');
+      fs.writeFileSync(file, 'sku,price\nA1,9.5\nB2,-1\n');
+
+      const result = await bulkImport(file, collectionName, { idColumn: 'sku' });
+      expect(result.isError).toBeUndefined();
+      const report = JSON.parse(result.content[0].text);
+      expect(report).toMatchObject({ rows: 2, written: 1, failed: 1 });
+      expect(report.failures).toEqual([{
+        row: 2,
+        id: 'B2',
+        error: `document '${collectionName}/B2' does not match the schema registered for '${collectionName}/{id}'`,
+        invalidFields: [{ field: 'price', keyword: 'minimum', message: 'must be >= 0' }]
+      }]);
+      expect((await db.doc(`${collectionName}/A1`).get()).exists).toBe(true);
+      expect((await db.doc(`${collectionName}/B2`).get()).exists).toBe(false);
+    } finally {
+      delete process.env.FIRESTORE_SCHEMA_CONFIG;
+      fs.rmSync(configPath, { force: true });
+    }
+  });
+});
@@ -0,0 +1,83 @@
+import { deleteWhere, updateWhere } from '../firestoreBulkWrite';
+import { admin } from '../firebaseConfig';
+
+/**
+ * Firestore Query-Driven Bulk Write Tests
+ *
+ * These tests verify dry runs, the cap on affected documents and the reports of
+ * updates and deletes applied to every matching document.
+ * Tests run against the Firebase emulator when available.
+ */
+describe('Firestore Query-Driven Bulk Writes', () => {
+  const collectionName = 'test_bulk_write_collection';
+  const openFilter = [{ field: 'status', operator: '==' as const, value: 'open' }];
+
+  // Setup: Create three open documents and one closed document before each test
+  beforeEach(async () => {
+    try {
+      const db = admin.firestore();
+      await db.recursiveDelete(db.collection(collectionName));
+      await Promise.all(['a', 'b', 'c'].map(id => db.doc(`${collectionName}/${id}`).set({ status: 'open' })));
+      await db.doc(`${collectionName}/d`).set({ status: 'closed' });
+    } catch (error) {
+      console.error('Error in test setup:', error);
+    }
+  });
+
+  // Test dry runs
+  it('should report the matching documents without writing by default', async () => {
+    const result = await updateWhere(collectionName, openFilter, { status: 'archived' }, { maxDocuments: 2 });
+
+    // Verify the response format
+    expect(result.isError).toBeUndefined();
+    const responseData = JSON.parse(result.content[0].text);
+    expect(responseData).toMatchObject({ dryRun: true, action: 'update', matched: 3, maxDocuments: 2, exceedsMaxDocuments: true });
+    expect(responseData.sample.map((doc: { id: string }) => doc.id)).toEqual(['a', 'b', 'c']);
+
+    // Verify nothing was written
+    const doc = await admin.firestore().doc(`${collectionName}/a`).get();
+    expect(doc.get('status')).toBe('open');
+  });
+
+  // Test the cap
+  it('should refuse to write when more documents match than the cap', async () => {
+    const result = await updateWhere(collectionName, openFilter, { status: 'archived' }, { dryRun: false, maxDocuments: 2 });
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('3 documents match, more than maxDocuments (2)');
+  });
+
+  // Test updates
+  it('should update every matching document', async () => {
+    const result = await updateWhere(collectionName, openFilter, { status: 'archived', archivedAt: { __type: 'serverTimestamp' } }, { dryRun: false });
+
+    // Verify the report
+    expect(result.isError).toBeUndefined();
+    const responseData = JSON.parse(result.content[0].text);
+    expect(responseData).toMatchObject({ dryRun: false, matched: 3, updated: 3, failed: 0, failures: [] });
+
+    // Verify the documents
+    const snapshot = await admin.firestore().collection(collectionName).where('status', '==', 'archived').get();
+    expect(snapshot.docs.map(doc => doc.id)).toEqual(['a', 'b', 'c']);
+    expect(snapshot.docs[0].get('archivedAt')).toBeDefined();
+  });
+
+  // Test deletes
+  it('should delete every matching document', async () => {
+    const result = await deleteWhere(collectionName, openFilter, { dryRun: false });
+
+    // Verify the report
+    expect(result.isError).toBeUndefined();
+    expect(JSON.parse(result.content[0].text)).toMatchObject({ matched: 3, deleted: 3, failed: 0 });
+
+    // Verify only the closed document is left
+    const snapshot = await admin.firestore().collection(collectionName).get();
+    expect(snapshot.docs.map(doc => doc.id)).toEqual(['d']);
+  });
+
+  // Test input validation
+  it('should reject an invalid cap', async () => {
+    const result = await deleteWhere(collectionName, openFilter, { maxDocuments: 20000 });
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toBe('Error deleting documents: Invalid maxDocuments 20000: must be an integer between 1 and 10000');
+  });
+});
@@ -1,6 +1,9 @@
-import { listDocuments, addDocument, getDocument, updateDocument, deleteDocument, list_collections } from '../firestoreClient';
+import { listDocuments, aggregateDocuments, compareVersions, findNearestDocuments, queryCollectionGroup, addDocument, getDocument, setDocument, updateDocument, deleteDocument, deleteRecursive, list_collections, exportCollection, importCollection } from '../firestoreClient';
 import { admin } from '../firebaseConfig';
-import { WhereFilterOp } from 'firebase-admin/firestore';
+import { FieldValue, WhereFilterOp } from 'firebase-admin/firestore';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 
 /**
  * Firestore Client Tests
@@ -108,6 +111,76 @@ describe('Firestore Client', () => {
     expect(docExists).toBe(true);
   });
 
+  // Test listing documents with OR filters and ordering
+  it('should list documents with or filters and ordering', async () => {
+    const result = await listDocuments(collectionName, [
+      { or: [
+        { field: 'numberField', operator: '==', value: 42 },
+        { field: 'boolField', operator: '==', value: false }
+      ]}
+    ], 20, undefined, { orderBy: [{ field: 'numberField', direction: 'desc' }] });
+
+    // Verify the response format
+    expect(result.isError).toBeUndefined();
+
+    // Verify our test document is in the results
+    const responseData = JSON.parse(result.content[0].text);
+    const docExists = responseData.documents.some(
+      (doc: { id: string }) => doc.id === testDocId
+    );
+    expect(docExists).toBe(true);
+  });
+
+  // Test collection group queries
+  it('should query a collection group across parents', async () => {
+    const db = admin.firestore();
+    await db.doc(`${collectionName}/parentA/test_comments/c1`).set({ flagged: true });
+    await db.doc(`${collectionName}/parentB/test_comments/c1`).set({ flagged: true });
+
+    const result = await queryCollectionGroup('test_comments', [
+      { field: 'flagged', operator: '==', value: true }
+    ]);
+
+    // Verify the response format
+    expect(result.isError).toBeUndefined();
+
+    // Verify both documents are returned with their full paths
+    const responseData = JSON.parse(result.content[0].text);
+    const paths = responseData.documents.map((doc: { path: string }) => doc.path);
+    expect(paths).toEqual(expect.arrayContaining([
+      `${collectionName}/parentA/test_comments/c1`,
+      `${collectionName}/parentB/test_comments/c1`
+    ]));
+    expect(responseData.documents[0].url).toContain(responseData.documents[0].path);
+  });
+
+  // Test collection group validation
+  it('should reject collection group IDs containing slashes', async () => {
+    const result = await queryCollectionGroup(`${collectionName}/parentA/test_comments`);
+    expect(result.isError).toBe(true);
+  });
+
+  // Test aggregating documents
+  it('should aggregate documents per filter group', async () => {
+    const result = await aggregateDocuments(collectionName, [
+      { type: 'count' },
+      { type: 'sum', field: 'numberField' }
+    ], [], [
+      { name: 'matching', filters: [{ field: 'numberField', operator: '==', value: 42 }] },
+      { name: 'none', filters: [{ field: 'numberField', operator: '<', value: 0 }] }
+    ]);
+
+    // Verify the response format
+    expect(result.isError).toBeUndefined();
+
+    // Verify each group was aggregated separately
+    const responseData = JSON.parse(result.content[0].text);
+    expect(responseData.groups[0].name).toBe('matching');
+    expect(responseData.groups[0].results.count).toBeGreaterThan(0);
+    expect(responseData.groups[0].results.sum_numberField).toBe(42 * responseData.groups[0].results.count);
+    expect(responseData.groups[1].results.count).toBe(0);
+  });
+
   // Test getting a document
   it('should get a document by ID', async () => {
     // Skip if we don't have a test document ID
@@ -129,6 +202,28 @@ describe('Firestore Client', () => {
     expect(responseData.document).toMatchObject(testDocData);
   });
 
+  // Test typed values round trip
+  it('should round-trip typed values in nested fields', async () => {
+    const typedData = {
+      year: '2024',
+      event: {
+        at: { __type: 'timestamp', value: '2024-01-01T00:00:00.123456789Z' },
+        tags: [{ __type: 'geopoint', latitude: 1, longitude: 2 }]
+      }
+    };
+
+    const addResult = await addDocument(collectionName, typedData);
+    expect(addResult.isError).toBeUndefined();
+    const { id } = JSON.parse(addResult.content[0].text);
+
+    // Verify the stored values come back unchanged
+    const getResult = await getDocument(collectionName, id);
+    const getResponseData = JSON.parse(getResult.content[0].text);
+    expect(getResponseData.document).toEqual(typedData);
+
+    await deleteDocument(collectionName, id);
+  });
+
   // Test updating a document
   it('should update a document', async () => {
     // Skip if we don't have a test document ID
@@ -185,6 +280,408 @@ describe('Firestore Client', () => {
     expect(getResult.content[0].text).toBe('Document not found');
   });
 
+  // Test full document paths in subcollections
+  it('should get, update and delete documents by full path', async () => {
+    const addResult = await addDocument(`${collectionName}/parent/orders`, { total: 10 });
+    expect(addResult.isError).toBeUndefined();
+    const { path } = JSON.parse(addResult.content[0].text);
+    expect(path).toMatch(new RegExp(`^${collectionName}/parent/orders/`));
+
+    const updateResult = await updateDocument(path, undefined, { total: 20 });
+    expect(updateResult.isError).toBeUndefined();
+
+    // Verify the update through the full path and the console link
+    const getResult = await getDocument(path);
+    const getResponseData = JSON.parse(getResult.content[0].text);
+    expect(getResponseData.document.total).toBe(20);
+    expect(getResponseData.url).toContain('~2Fparent~2Forders~2F');
+
+    const deleteResult = await deleteDocument(path);
+    expect(deleteResult.isError).toBeUndefined();
+  });
+
+  // Test set with merge, create-only and update time preconditions
+  it('should set documents with merge and preconditions', async () => {
+    const path = `${collectionName}/settings`;
+    const created = await setDocument(path, undefined, { theme: 'dark', layout: { sidebar: true } }, { createOnly: true });
+    expect(created.isError).toBeUndefined();
+
+    // A second create-only write fails
+    const duplicate = await setDocument(path, undefined, { theme: 'light' }, { createOnly: true });
+    expect(duplicate.isError).toBe(true);
+    expect(duplicate.content[0].text).toContain('already exists');
+
+    // Merge keeps untouched fields
+    const merged = await setDocument(collectionName, 'settings', { layout: { width: 3 } }, { merge: true });
+    expect(JSON.parse(merged.content[0].text).document).toEqual({ theme: 'dark', layout: { sidebar: true, width: 3 } });
+
+    // The updateTime from a read is accepted once, then rejected as stale
+    const { updateTime } = JSON.parse((await getDocument(path)).content[0].text);
+    const first = await setDocument(path, undefined, { theme: 'light' }, { lastUpdateTime: updateTime });
+    expect(first.isError).toBeUndefined();
+    expect(JSON.parse(first.content[0].text).document).toEqual({ theme: 'light' });
+
+    const stale = await setDocument(path, undefined, { theme: 'blue' }, { lastUpdateTime: updateTime });
+    expect(stale.isError).toBe(true);
+    expect(stale.content[0].text).toContain('was modified');
+  });
+
+  // Test diffs returned from writes
+  it('should return field-level diffs from update, set and delete', async () => {
+    const path = `${collectionName}/diffed`;
+    await admin.firestore().doc(path).set({ name: 'Ada', address: { city: 'London' }, legacy: true });
+
+    const updated = await updateDocument(path, undefined, { 'address.city': 'Paris', legacy: { __type: 'deleteField' } }, true);
+    expect(JSON.parse(updated.content[0].text).diff).toEqual({
+      added: [],
+      removed: [{ path: 'legacy', value: true }],
+      changed: [{ path: 'address.city', before: 'London', after: 'Paris' }]
+    });
+
+    const set = await setDocument(path, undefined, { age: 36 }, { merge: true, returnDiff: true });
+    expect(JSON.parse(set.content[0].text).diff.added).toEqual([{ path: 'age', value: 36 }]);
+
+    // Sentinels are resolved against the replaced version; server timestamps are only known at commit
+    const incremented = await updateDocument(path, undefined, { age: { __type: 'increment', operand: 1 }, seenAt: { __type: 'serverTimestamp' } }, true);
+    expect(JSON.parse(incremented.content[0].text).diff).toEqual({
+      added: [{ path: 'seenAt', value: { __type: 'serverTimestamp' } }],
+      removed: [],
+      changed: [{ path: 'age', before: 36, after: 37 }]
+    });
+
+    const deleted = await deleteDocument(path, undefined, true);
+    const deletedData = JSON.parse(deleted.content[0].text);
+    expect(deletedData.existed).toBe(true);
+    expect(deletedData.diff.removed.map((field: { path: string }) => field.path)).toEqual(['address', 'age', 'name', 'seenAt']);
+  });
+
+  // Test field masks and the response size budget
+  it('should select fields and keep large pages within the response budget', async () => {
+    const path = `${collectionName}/blobs`;
+    await admin.firestore().recursiveDelete(admin.firestore().collection(`${path}/items`));
+    for (const id of ['i1', 'i2', 'i3']) {
+      await admin.firestore().doc(`${path}/items/${id}`).set({ title: id, blob: 'x'.repeat(5000) });
+    }
+
+    // Field mask on a single document
+    const selected = await getDocument(`${path}/items/i1`, undefined, ['title']);
+    expect(JSON.parse(selected.content[0].text).document).toEqual({ title: 'i1' });
+
+    // A small budget truncates values and shortens the page
+    const first = JSON.parse((await listDocuments(`${path}/items`, [], 20, undefined, {}, 3000)).content[0].text);
+    expect(first.truncated).toBe(true);
+    expect(first.hasMore).toBe(true);
+    expect(first.documents).toHaveLength(2);
+    expect(first.documents[0].document.blob.__type).toBe('truncated');
+
+    // The page token continues after the last returned document
+    const second = JSON.parse((await listDocuments(`${path}/items`, [], 20, first.pageToken, { select: ['title'] }, 3000)).content[0].text);
+    expect(second.documents.map((doc: { document: object }) => doc.document)).toEqual([{ title: 'i3' }]);
+  });
+
+  // Test cursor pagination
+  it('should page through ordered results with opaque tokens', async () => {
+    const pagesPath = `${collectionName}/paged/items`;
+    for (let i = 0; i < 5; i++) {
+      await admin.firestore().doc(`${pagesPath}/d${i}`).set({ rank: i % 2, title: `d${i}` });
+    }
+    const filters = [{ field: 'rank', operator: '>=' as WhereFilterOp, value: 0 }];
+    const options = { orderBy: [{ field: 'title', direction: 'desc' as const }] };
+
+    // Walk every page and collect the titles
+    const titles: string[] = [];
+    let pageToken: string | undefined;
+    do {
+      const page = JSON.parse((await listDocuments(pagesPath, filters, 2, pageToken, options)).content[0].text);
+      expect(page.totalCount).toBe(5);
+      titles.push(...page.documents.map((doc: { document: { title: string } }) => doc.document.title));
+      expect(page.hasMore).toBe(page.pageToken !== null);
+      pageToken = page.pageToken || undefined;
+
+      // Deleting the last returned document does not break the next page
+      if (pageToken) {
+        await admin.firestore().doc(page.documents[page.documents.length - 1].path).delete();
+      }
+    } while (pageToken);
+    expect(titles).toEqual(['d4', 'd3', 'd2', 'd1', 'd0']);
+
+    // Tokens are rejected by other queries
+    const first = JSON.parse((await listDocuments(pagesPath, [], 1)).content[0].text);
+    const mismatched = await listDocuments(pagesPath, filters, 1, first.pageToken);
+    expect(mismatched.isError).toBe(true);
+    expect(mismatched.content[0].text).toContain('issued for a different query');
+  });
+
+  // Test cursor bounds combined with the implicit ordering
+  it('should page within startAt and endBefore bounds', async () => {
+    const boundsPath = `${collectionName}/bounded/items`;
+    for (let i = 0; i < 5; i++) {
+      await admin.firestore().doc(`${boundsPath}/d${i}`).set({ rank: i });
+    }
+    const options = { orderBy: [{ field: 'rank' }], startAt: [1], endBefore: [4] };
+
+    const first = JSON.parse((await listDocuments(boundsPath, [], 2, undefined, options)).content[0].text);
+    expect(first.totalCount).toBe(3);
+    expect(first.documents.map((doc: { id: string }) => doc.id)).toEqual(['d1', 'd2']);
+    expect(first.hasMore).toBe(true);
+
+    const second = JSON.parse((await listDocuments(boundsPath, [], 2, first.pageToken, options)).content[0].text);
+    expect(second.documents.map((doc: { id: string }) => doc.id)).toEqual(['d3']);
+    expect(second.hasMore).toBe(false);
+  });
+
+  // Test collection pagination
+  it('should page through subcollections', async () => {
+    for (const id of ['a', 'b', 'c']) {
+      await admin.firestore().doc(`${collectionName}/collections/${id}/doc`).set({ n: 1 });
+    }
+
+    const first = JSON.parse((await list_collections(`${collectionName}/collections`, 2)).content[0].text);
+    expect(first.collections.map((c: { name: string }) => c.name)).toEqual(['a', 'b']);
+    expect(first.hasMore).toBe(true);
+
+    // A deleted collection does not restart the listing
+    await admin.firestore().recursiveDelete(admin.firestore().collection(`${collectionName}/collections/b`));
+    const second = JSON.parse((await list_collections(`${collectionName}/collections`, 2, first.nextPageToken)).content[0].text);
+    expect(second.collections.map((c: { name: string }) => c.name)).toEqual(['c']);
+    expect(second.hasMore).toBe(false);
+    expect(second.nextPageToken).toBeNull();
+  });
+
+  // Test vector similarity search
+  it('should find the nearest documents with their distances', async () => {
+    const vectorsPath = `${collectionName}/vectors/items`;
+    const db = admin.firestore();
+    await db.doc(`${vectorsPath}/a`).set({ kind: 'x', embedding: FieldValue.vector([1, 0]) });
+    await db.doc(`${vectorsPath}/b`).set({ kind: 'x', embedding: FieldValue.vector([0, 1]) });
+    await db.doc(`${vectorsPath}/c`).set({ kind: 'y', embedding: FieldValue.vector([0.9, 0.1]) });
+
+    const result = await findNearestDocuments(vectorsPath, 'embedding', [1, 0], { distanceMeasure: 'euclidean', limit: 2 });
+    expect(result.isError).toBeUndefined();
+    const nearest = JSON.parse(result.content[0].text);
+    expect(nearest.documents.map((d: { id: string }) => d.id)).toEqual(['a', 'c']);
+    expect(nearest.documents[0].distance).toBe(0);
+    expect(nearest.documents[0].document).toEqual({ kind: 'x' });
+
+    // Pre-filters restrict the ranked documents
+    const filtered = JSON.parse((await findNearestDocuments(vectorsPath, 'embedding', { __type: 'vector', values: [1, 0] }, {
+      distanceMeasure: 'euclidean',
+      filters: [{ field: 'kind', operator: '==', value: 'x' }],
+      includeVector: true
+    })).content[0].text);
+    expect(filtered.documents.map((d: { id: string }) => d.id)).toEqual(['a', 'b']);
+    expect(filtered.documents[0].document.embedding).toEqual({ __type: 'vector', values: [1, 0] });
+
+    // Invalid vectors are rejected before querying
+    const invalid = await findNearestDocuments(vectorsPath, 'embedding', []);
+    expect(invalid.isError).toBe(true);
+    expect(invalid.content[0].text).toBe('Error finding nearest documents: queryVector must be a non-empty array of finite numbers');
+  });
+
+  // Test schema validation of writes
+  it('should reject writes that do not match the registered schema', async () => {
+    const configPath = path.join(os.tmpdir(), `firestore-client-schemas-${process.pid}.json`);
+    fs.writeFileSync(configPath, JSON.stringify({ schemas: {
+      [`${collectionName}/{id}/members/{uid}`]: { type: 'object', required: ['role'], properties: { role: { enum: ['admin', 'viewer'] } } }
+    } }));
+    process.env.FIRESTORE_SCHEMA_CONFIG = configPath;
+    const membersPath = `${collectionName}/schemaParent/members`;
+    try {
+      // A new document without a required field is not created
+      const added = await addDocument(membersPath, { name: 'Ada' });
+      expect(added.isError).toBe(true);
+      const addError = JSON.parse(added.content[0].text);
+      expect(addError.invalidDocuments[0].errors).toEqual([{ field: 'role', keyword: 'required', message: 'is required' }]);
+      expect((await admin.firestore().collection(membersPath).get()).size).toBe(0);
+
+      // An update is validated as the merged document
+      await admin.firestore().doc(`${membersPath}/ada`).set({ role: 'viewer' });
+      const updated = await updateDocument(membersPath, 'ada', { role: 'owner' });
+      expect(updated.isError).toBe(true);
+      expect(JSON.parse(updated.content[0].text).invalidDocuments[0].errors[0].field).toBe('role');
+      expect((await admin.firestore().doc(`${membersPath}/ada`).get()).get('role')).toBe('viewer');
+
+      // Valid writes go through
+      const valid = await updateDocument(membersPath, 'ada', { role: 'admin' });
+      expect(valid.isError).toBeUndefined();
+      expect((await admin.firestore().doc(`${membersPath}/ada`).get()).get('role')).toBe('admin');
+    } finally {
+      delete process.env.FIRESTORE_SCHEMA_CONFIG;
+      fs.rmSync(configPath, { force: true });
+    }
+  });
+
+  // Test path validation
+  it('should reject paths with the wrong number of segments', async () => {
+    const result = await getDocument(`${collectionName}/parent/orders`);
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('document paths have an even number of segments');
+  });
+
+  // Test recursive deletion with a dry run
+  it('should preview and then recursively delete a document tree', async () => {
+    const db = admin.firestore();
+    await db.doc(`${collectionName}/tree`).set({ root: true });
+    await db.doc(`${collectionName}/tree/branches/b1`).set({ n: 1 });
+    await db.doc(`${collectionName}/tree/branches/b1/leaves/l1`).set({ n: 1 });
+
+    // Dry run reports the counts and does not delete
+    const preview = await deleteRecursive(`${collectionName}/tree`);
+    expect(preview.isError).toBeUndefined();
+    const previewData = JSON.parse(preview.content[0].text);
+    expect(previewData.dryRun).toBe(true);
+    expect(previewData.totalDocuments).toBe(3);
+    expect(previewData.complete).toBe(true);
+    expect(previewData.collections[`${collectionName}/tree/branches/b1/leaves`]).toBe(1);
+    expect((await db.doc(`${collectionName}/tree/branches/b1`).get()).exists).toBe(true);
+
+    // A token issued for another path is rejected
+    const wrongPath = await deleteRecursive(`${collectionName}/other`, previewData.confirmationToken);
+    expect(wrongPath.isError).toBe(true);
+
+    // The token deletes the whole tree
+    const result = await deleteRecursive(`${collectionName}/tree`, previewData.confirmationToken);
+    expect(result.isError).toBeUndefined();
+    expect(JSON.parse(result.content[0].text).deleted).toBe(3);
+    expect((await db.doc(`${collectionName}/tree/branches/b1/leaves/l1`).get()).exists).toBe(false);
+
+    // Tokens are single-use
+    const reused = await deleteRecursive(`${collectionName}/tree`, previewData.confirmationToken);
+    expect(reused.isError).toBe(true);
+  });
+
+  // Test exporting and importing a collection
+  it('should export a collection recursively and import it back', async () => {
+    const db = admin.firestore();
+    const exportCollectionName = 'test_export_collection';
+    await db.doc(`${exportCollectionName}/a`).set({ createdAt: new Date(0), name: 'a' });
+    await db.doc(`${exportCollectionName}/a/children/c1`).set({ name: 'c1' });
+    const filePath = path.join(os.tmpdir(), `firebase-mcp-export-${Date.now()}.ndjson`);
+
+    const exportResult = await exportCollection(exportCollectionName, filePath, true);
+    expect(exportResult.isError).toBeUndefined();
+    expect(JSON.parse(exportResult.content[0].text).documents).toBe(2);
+
+    // Remove the data and restore it from the file
+    await db.recursiveDelete(db.collection(exportCollectionName));
+    const progress: number[] = [];
+    const importResult = await importCollection(filePath, false, (processed) => progress.push(processed));
+    expect(importResult.isError).toBeUndefined();
+    expect(JSON.parse(importResult.content[0].text).written).toBe(2);
+    expect(progress).toEqual([2]);
+
+    // Verify types survived the round trip
+    const restored = await db.doc(`${exportCollectionName}/a`).get();
+    expect(restored.get('createdAt').toMillis()).toBe(0);
+    expect((await db.doc(`${exportCollectionName}/a/children/c1`).get()).exists).toBe(true);
+  });
+
+  // Test schema validation of imported documents
+  it('should skip and report imported documents that do not match the registered schema', async () => {
+    const db = admin.firestore();
+    const importCollectionName = 'test_import_schema_collection';
+    await db.recursiveDelete(db.collection(importCollectionName));
+    const configPath = path.join(os.tmpdir(), `firestore-import-schemas-${process.pid}.json`);
+    fs.writeFileSync(configPath, JSON.stringify({ schemas: { [`${importCollectionName}/{id}`]: { type: 'object', required: ['name'] } } }));
+    process.env.FIRESTORE_SCHEMA_CONFIG = configPath;
+    const filePath = path.join(os.tmpdir(), `firebase-mcp-import-${Date.now()}.ndjson`);
+    fs.writeFileSync(filePath, [
+      JSON.stringify({ path: `${importCollectionName}/valid`, data: { name: 'ok' } }),
+      JSON.stringify({ path: `${importCollectionName}/invalid`, data: { title: 'no name' } }),
+      JSON.stringify({ path: `${importCollectionName}/invalid`, data: { name: 'fixed' } })
+    ].join('\n'));
+    try {
+      const result = await importCollection(filePath);
+      expect(result.isError).toBeUndefined();
+      const report = JSON.parse(result.content[0].text);
+      expect(report).toMatchObject({ written: 2, failed: 1 });
+      expect(report.failures).toEqual([{
+        line: 2,
+        path: `${importCollectionName}/invalid`,
+        error: `document '${importCollectionName}/invalid' does not match the schema registered for '${importCollectionName}/{id}'`,
+        invalidFields: [{ field: 'name', keyword: 'required', message: 'is required' }]
+      }]);
+      expect((await db.doc(`${importCollectionName}/valid`).get()).exists).toBe(true);
+      expect((await db.doc(`${importCollectionName}/invalid`).get()).get('name')).toBe('fixed');
+    } finally {
+      delete process.env.FIRESTORE_SCHEMA_CONFIG;
+      fs.rmSync(configPath, { force: true });
+    }
+  });
+
+  // Test malformed import files
+  it('should not write anything when an imported line is malformed', async () => {
+    const db = admin.firestore();
+    const filePath = path.join(os.tmpdir(), `firebase-mcp-import-malformed-${Date.now()}.ndjson`);
+    fs.writeFileSync(filePath, [
+      JSON.stringify({ path: `${collectionName}/imported`, data: { n: 1 } }),
+      '{"path": '
+    ].join('\n'));
+    try {
+      const result = await importCollection(filePath);
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Error importing collection: Invalid record on line 2');
+      expect((await db.doc(`${collectionName}/imported`).get()).exists).toBe(false);
+    } finally {
+      fs.rmSync(filePath, { force: true });
+    }
+  });
+
+  // Test export file errors
+  it('should return an error when the export file cannot be opened', async () => {
+    const result = await exportCollection('test_export_collection', os.tmpdir());
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Error exporting collection: EISDIR');
+  });
+
+  // Test point-in-time reads
+  it('should read a document as it was at a past time and compare it with now', async () => {
+    const db = admin.firestore();
+    const path = `${collectionName}/versioned`;
+    await db.doc(path).set({ status: 'draft', title: 'Report' });
+    await new Promise(resolve => setTimeout(resolve, 1000));
+    const readTime = new Date().toISOString();
+    await new Promise(resolve => setTimeout(resolve, 1000));
+    await db.doc(path).update({ status: 'published', reviewer: 'alice' });
+
+    // Verify the earlier version is read
+    const earlier = JSON.parse((await getDocument(path, undefined, undefined, undefined, readTime)).content[0].text);
+    expect(earlier.document).toEqual({ status: 'draft', title: 'Report' });
+    expect(earlier.readTime).toBeDefined();
+
+    // Verify the diff from the earlier version to the current one
+    const result = await compareVersions(path, undefined, readTime);
+    expect(result.isError).toBeUndefined();
+    const comparison = JSON.parse(result.content[0].text);
+    expect(comparison).toMatchObject({ existedThen: true, existsNow: true, changed: true, previous: { status: 'draft', title: 'Report' } });
+    expect(comparison.diff).toEqual({
+      added: [{ path: 'reviewer', value: 'alice' }],
+      removed: [],
+      changed: [{ path: 'status', before: 'draft', after: 'published' }]
+    });
+  });
+
+  // Test read time validation
+  it('should reject read times in the future', async () => {
+    const readTime = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+    const result = await getDocument(collectionName, 'any-id', undefined, undefined, readTime);
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toBe(`Error getting document: Invalid readTime '${readTime}': must not be in the future`);
+  });
+
+  // Test listing collections at a read time with an SDK that lacks the internal request method
+  it('should report when the SDK cannot list collections at a read time', async () => {
+    const db = admin.firestore() as any;
+    db.request = undefined;
+    try {
+      const result = await list_collections(undefined, 20, undefined, new Date(Date.now() - 60 * 1000).toISOString());
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Listing collections at a readTime is not supported by the installed Firestore SDK');
+    } finally {
+      delete db.request;
+    }
+  });
+
   // Test error handling for non-existent document
   it('should handle non-existent document gracefully', async () => {
     const result = await getDocument(collectionName, 'non-existent-id');
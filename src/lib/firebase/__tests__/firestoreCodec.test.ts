@@ -0,0 +1,84 @@
+import { decodeDocument, decodeValue, encodeDocument, encodeValue, getValueType } from '../firestoreCodec';
+import { admin } from '../firebaseConfig';
+import { DocumentReference, FieldValue, GeoPoint, Timestamp } from 'firebase-admin/firestore';
+
+/**
+ * Firestore Codec Tests
+ *
+ * These tests verify that Firestore values survive a round trip through the typed
+ * JSON encoding. No Firestore requests are made.
+ */
+describe('Firestore Codec', () => {
+  const db = admin.firestore();
+
+  // Test encoding of nested values
+  it('should encode special types inside nested maps and arrays', () => {
+    const encoded = encodeDocument({
+      createdAt: new Timestamp(1704067200, 123456789),
+      owner: db.doc('users/alice'),
+      nested: {
+        location: new GeoPoint(51.5, -0.12),
+        history: [{ at: new Timestamp(0, 0) }, Buffer.from('hello')]
+      },
+      score: NaN
+    });
+
+    expect(encoded).toEqual({
+      createdAt: { __type: 'timestamp', value: '2024-01-01T00:00:00.123456789Z' },
+      owner: { __type: 'reference', path: 'users/alice' },
+      nested: {
+        location: { __type: 'geopoint', latitude: 51.5, longitude: -0.12 },
+        history: [
+          { at: { __type: 'timestamp', value: '1970-01-01T00:00:00.000000000Z' } },
+          { __type: 'bytes', base64: 'aGVsbG8=' }
+        ]
+      },
+      score: { __type: 'number', value: 'NaN' }
+    });
+  });
+
+  // Test round trips
+  it('should decode encoded values back to the original types', () => {
+    const original = {
+      createdAt: new Timestamp(1704067200, 123456789),
+      owner: db.doc('users/alice'),
+      embedding: FieldValue.vector([0.1, 0.2]),
+      literal: { __type: 'not a typed value', count: 1 }
+    };
+
+    const decoded = decodeDocument(JSON.parse(JSON.stringify(encodeDocument(original))), db);
+
+    expect((decoded.createdAt as Timestamp).isEqual(original.createdAt)).toBe(true);
+    expect(decoded.owner).toBeInstanceOf(DocumentReference);
+    expect((decoded.owner as DocumentReference).path).toBe('users/alice');
+    expect(decoded.embedding.isEqual(original.embedding)).toBe(true);
+    expect(decoded.literal).toEqual(original.literal);
+  });
+
+  // Test that plain strings are left alone
+  it('should not convert date-like strings', () => {
+    expect(decodeValue('2024', db)).toBe('2024');
+    expect(encodeValue('2024-01-01T00:00:00Z')).toBe('2024-01-01T00:00:00Z');
+  });
+
+  // Test write sentinels
+  it('should only accept write sentinels in written data', () => {
+    const data = decodeDocument({ updatedAt: { __type: 'serverTimestamp' }, visits: { __type: 'increment', operand: 1 } }, db);
+    expect(data.updatedAt.isEqual(FieldValue.serverTimestamp())).toBe(true);
+    expect(data.visits.isEqual(FieldValue.increment(1))).toBe(true);
+
+    expect(() => decodeValue({ __type: 'deleteField' }, db)).toThrow('only allowed in written data');
+    expect(() => decodeValue({ __type: 'unknown' }, db)).toThrow("Unknown typed value 'unknown'");
+    expect(() => decodeValue({ __type: 'reference', path: 'users' }, db)).toThrow('expected a document path');
+  });
+
+  // Test type names
+  it('should report Firestore type names', () => {
+    expect(getValueType(1)).toBe('integer');
+    expect(getValueType(1.5)).toBe('double');
+    expect(getValueType(null)).toBe('null');
+    expect(getValueType(db.doc('users/alice'))).toBe('reference');
+    expect(getValueType(FieldValue.vector([1]))).toBe('vector');
+    expect(getValueType({ a: 1 })).toBe('map');
+  });
+});
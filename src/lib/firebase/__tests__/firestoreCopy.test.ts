@@ -0,0 +1,78 @@
+import { copyDocument, moveDocument } from '../firestoreCopy';
+import { admin } from '../firebaseConfig';
+
+/**
+ * Firestore Copy and Move Tests
+ *
+ * These tests verify copying document trees, rewriting references inside the copied
+ * subtree and deleting the source of a move only after it has been copied.
+ * Tests run against the Firebase emulator when available.
+ */
+describe('Firestore Copy and Move', () => {
+  const collectionName = 'test_copy_collection';
+
+  // Setup: Create a project document with a task that references it and an outside document
+  beforeEach(async () => {
+    try {
+      const db = admin.firestore();
+      await db.recursiveDelete(db.collection(collectionName));
+      await db.doc(`${collectionName}/p1`).set({ name: 'Project', owner: db.doc('users/alice') });
+      await db.doc(`${collectionName}/p1/tasks/t1`).set({ title: 'Task', project: db.doc(`${collectionName}/p1`) });
+    } catch (error) {
+      console.error('Error in test setup:', error);
+    }
+  });
+
+  // Test recursive copies
+  it('should copy a document with its subcollections and rewrite internal references', async () => {
+    const result = await copyDocument(`${collectionName}/p1`, 'p2', { recursive: true });
+
+    // Verify the report
+    expect(result.isError).toBeUndefined();
+    const responseData = JSON.parse(result.content[0].text);
+    expect(responseData).toMatchObject({ target: `${collectionName}/p2`, documents: 2, copied: 2, referencesRewritten: 1, failed: 0 });
+
+    // Verify the copies point inside the copied tree, and outside references are kept
+    const db = admin.firestore();
+    const task = await db.doc(`${collectionName}/p2/tasks/t1`).get();
+    expect(task.get('project').path).toBe(`${collectionName}/p2`);
+    const project = await db.doc(`${collectionName}/p2`).get();
+    expect(project.get('owner').path).toBe('users/alice');
+    expect((await db.doc(`${collectionName}/p1`).get()).exists).toBe(true);
+  });
+
+  // Test existing targets
+  it('should refuse to replace an existing document unless overwriting', async () => {
+    await admin.firestore().doc(`${collectionName}/p2`).set({ name: 'Existing' });
+
+    const result = await copyDocument(`${collectionName}/p1`, `${collectionName}/p2`);
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain(`1 target document already exists, e.g. '${collectionName}/p2'`);
+
+    const overwritten = await copyDocument(`${collectionName}/p1`, `${collectionName}/p2`, { overwrite: true });
+    expect(overwritten.isError).toBeUndefined();
+    expect((await admin.firestore().doc(`${collectionName}/p2`).get()).get('name')).toBe('Project');
+  });
+
+  // Test moves
+  it('should move a document tree and delete the source', async () => {
+    const result = await moveDocument(`${collectionName}/p1`, `${collectionName}/p3`, { recursive: true });
+
+    // Verify the report
+    expect(result.isError).toBeUndefined();
+    expect(JSON.parse(result.content[0].text)).toMatchObject({ copied: 2, deleted: 2, sourceDeleted: true, failed: 0 });
+
+    // Verify the source is gone and the copy is in place
+    const db = admin.firestore();
+    expect((await db.doc(`${collectionName}/p1`).get()).exists).toBe(false);
+    expect((await db.doc(`${collectionName}/p1/tasks/t1`).get()).exists).toBe(false);
+    expect((await db.doc(`${collectionName}/p3/tasks/t1`).get()).get('project').path).toBe(`${collectionName}/p3`);
+  });
+
+  // Test input validation
+  it('should reject copies into the copied subtree', async () => {
+    const result = await copyDocument(`${collectionName}/p1`, `${collectionName}/p1/children/c1`, { recursive: true });
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toBe(`Error copying document: Cannot copy '${collectionName}/p1' recursively into its own subtree '${collectionName}/p1/children/c1'`);
+  });
+});
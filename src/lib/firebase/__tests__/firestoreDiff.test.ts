@@ -0,0 +1,53 @@
+import { diffDocuments } from '../firestoreDiff';
+import { admin } from '../firebaseConfig';
+import { Timestamp } from 'firebase-admin/firestore';
+
+/**
+ * Firestore Diff Tests
+ *
+ * These tests verify the field-level comparison of two document versions.
+ * No Firestore requests are made.
+ */
+describe('Firestore Diff', () => {
+  const db = admin.firestore();
+
+  // Test nested maps and whole-value comparison
+  it('should report added, removed and changed field paths', () => {
+    const diff = diffDocuments(
+      { name: 'Ada', address: { city: 'London', zip: 'N1' }, tags: ['a', 'b'], legacy: true },
+      { name: 'Ada', address: { city: 'Paris', zip: 'N1' }, tags: ['a', 'c'], age: 36 }
+    );
+
+    expect(diff).toEqual({
+      added: [{ path: 'age', value: 36 }],
+      removed: [{ path: 'legacy', value: true }],
+      changed: [
+        { path: 'address.city', before: 'London', after: 'Paris' },
+        { path: 'tags', before: ['a', 'b'], after: ['a', 'c'] }
+      ]
+    });
+  });
+
+  // Test typed values
+  it('should compare special types in their typed encoding', () => {
+    const owner = db.doc('users/alice');
+    const diff = diffDocuments(
+      { at: new Timestamp(1, 0), owner, meta: { a: 1, b: 2 } },
+      { at: new Timestamp(2, 0), owner: db.doc('users/alice'), meta: { b: 2, a: 1 } }
+    );
+
+    expect(diff.added).toEqual([]);
+    expect(diff.removed).toEqual([]);
+    expect(diff.changed).toEqual([{
+      path: 'at',
+      before: { __type: 'timestamp', value: '1970-01-01T00:00:01.000000000Z' },
+      after: { __type: 'timestamp', value: '1970-01-01T00:00:02.000000000Z' }
+    }]);
+  });
+
+  // Test missing documents
+  it('should treat a missing document as having no fields', () => {
+    expect(diffDocuments(undefined, { a: 1 }).added).toEqual([{ path: 'a', value: 1 }]);
+    expect(diffDocuments({ a: { b: 1 } }, undefined).removed).toEqual([{ path: 'a', value: { b: 1 } }]);
+  });
+});
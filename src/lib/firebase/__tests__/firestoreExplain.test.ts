@@ -0,0 +1,68 @@
+import { explainQuery, formatExplainMetrics } from '../firestoreExplain';
+
+/**
+ * Firestore Query Explain Tests
+ *
+ * These tests verify how query explain metrics are reported.
+ * No Firestore requests are made.
+ */
+describe('Firestore Query Explain', () => {
+  // Builds explain metrics in the shape returned by Query.explain()
+  const metrics = (executionStats: any) => ({
+    planSummary: { indexesUsed: [{ query_scope: 'Collection', properties: '(status ASC, __name__ ASC)' }] },
+    executionStats
+  }) as FirebaseFirestore.ExplainMetrics;
+
+  // Test planning only
+  it('should report the indexes of a query that was not analyzed', () => {
+    expect(formatExplainMetrics(metrics(null))).toEqual({
+      indexesUsed: [{ queryScope: 'Collection', properties: '(status ASC, __name__ ASC)' }],
+      notes: []
+    });
+  });
+
+  // Test execution statistics
+  it('should report scans, billed reads and execution time', () => {
+    const explanation = formatExplainMetrics(metrics({
+      resultsReturned: 2,
+      executionDuration: { seconds: 1, nanoseconds: 500000000 },
+      readOperations: 2,
+      debugStats: {
+        index_entries_scanned: '1200',
+        documents_scanned: '2',
+        billing_details: { documents_billable: '2', index_entries_billable: '0', small_ops: '0', min_query_cost: '0' }
+      }
+    }));
+
+    expect(explanation.execution).toEqual({
+      resultsReturned: 2,
+      documentsScanned: 2,
+      indexEntriesScanned: 1200,
+      readOperations: 2,
+      executionTimeMs: 1500,
+      billing: { documentsBillable: 2, indexEntriesBillable: 0, smallOps: 0, minQueryCost: 0 }
+    });
+    expect(explanation.notes).toHaveLength(1);
+    expect(explanation.notes[0]).toContain('Scanned 1200 index entries for 2 results');
+  });
+
+  // Test empty results
+  it('should point out the minimum read billed for empty results', () => {
+    const explanation = formatExplainMetrics(metrics({
+      resultsReturned: 0,
+      executionDuration: { seconds: 0, nanoseconds: 2000000 },
+      readOperations: 1,
+      debugStats: { index_entries_scanned: '0', documents_scanned: '0' }
+    }));
+
+    expect(explanation.execution!.executionTimeMs).toBe(2);
+    expect(explanation.notes).toEqual(['Queries that return no documents are still billed a minimum of one read']);
+  });
+
+  // Test input validation
+  it('should reject collection group queries on a path', async () => {
+    const result = await explainQuery('users/u1/orders', [], 20, {}, true, true);
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toBe("Error explaining query: Invalid collection ID 'users/u1/orders': collection group queries take a collection ID without slashes");
+  });
+});
@@ -0,0 +1,92 @@
+import { generateIndexes, parseMissingIndexError, queryErrorContent } from '../firestoreIndexes';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+/**
+ * Firestore Index Detection Tests
+ *
+ * These tests verify that missing index errors are parsed into index definitions
+ * and written to firestore.indexes.json. No Firestore requests are made.
+ */
+describe('Firestore Index Detection', () => {
+  // Encodes a protocol buffer field with a short varint or length-delimited value
+  const field = (number: number, value: number | string | Buffer) => {
+    if (typeof value === 'number') {
+      return Buffer.from([number * 8, value]);
+    }
+    const bytes = typeof value === 'string' ? Buffer.from(value) : value;
+    return Buffer.concat([Buffer.from([number * 8 + 2, bytes.length]), bytes]);
+  };
+
+  // Builds a FAILED_PRECONDITION error like the one Firestore returns for a missing index
+  const missingIndexError = (database = '(default)', collection = 'orders') => {
+    const index = Buffer.concat([
+      field(1, `projects/demo/databases/${database}/collectionGroups/${collection}/indexes/_`),
+      field(2, 1),
+      field(3, Buffer.concat([field(1, 'status'), field(2, 1)])),
+      field(3, Buffer.concat([field(1, 'createdAt'), field(2, 2)]))
+    ]);
+    const url = `https://console.firebase.google.com/v1/r/project/demo/firestore/indexes?create_composite=${encodeURIComponent(index.toString('base64'))}`;
+    return Object.assign(new Error(`9 FAILED_PRECONDITION: The query requires an index. You can create it here: ${url}`), { code: 9 });
+  };
+
+  // Test parsing the index from the console link
+  it('should parse the required index from a missing index error', () => {
+    const missing = parseMissingIndexError(missingIndexError());
+
+    expect(missing?.index).toEqual({
+      collectionGroup: 'orders',
+      queryScope: 'COLLECTION',
+      fields: [
+        { fieldPath: 'status', order: 'ASCENDING' },
+        { fieldPath: 'createdAt', order: 'DESCENDING' }
+      ]
+    });
+    expect(missing?.database).toBe('(default)');
+    expect(missing?.createIndexUrl).toMatch(/^https:\/\/console\.firebase\.google\.com\/.*create_composite=/);
+  });
+
+  // Test other errors
+  it('should leave other errors unchanged', () => {
+    expect(parseMissingIndexError(new Error('5 NOT_FOUND: no entity'))).toBeNull();
+    expect(queryErrorContent(new Error('boom'), 'listing documents')).toEqual([{ type: 'text', text: 'Error listing documents: boom' }]);
+  });
+
+  // Test generating the index file
+  it('should merge missing indexes into firestore.indexes.json', async () => {
+    const content = queryErrorContent(missingIndexError(), 'listing documents');
+    expect(JSON.parse(content[0].text).missingIndex.collectionGroup).toBe('orders');
+
+    // Start from a file with an unrelated index and field override
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'firestore-indexes-')), 'firestore.indexes.json');
+    const existing = { collectionGroup: 'users', queryScope: 'COLLECTION', fields: [{ fieldPath: 'age', order: 'ASCENDING' }, { fieldPath: 'name', order: 'ASCENDING' }] };
+    fs.writeFileSync(file, JSON.stringify({ indexes: [existing], fieldOverrides: [{ collectionGroup: 'logs', fieldPath: 'body', indexes: [] }] }));
+
+    const result = await generateIndexes(file);
+    expect(result.isError).toBeUndefined();
+    expect(JSON.parse(result.content[0].text).added).toHaveLength(1);
+
+    const written = JSON.parse(fs.readFileSync(file, 'utf8'));
+    expect(written.indexes).toHaveLength(2);
+    expect(written.fieldOverrides).toHaveLength(1);
+
+    // Generating again does not duplicate the index
+    const again = await generateIndexes(file);
+    expect(JSON.parse(again.content[0].text)).toMatchObject({ added: [], total: 2 });
+  });
+
+  // Test keeping the indexes of each database apart
+  it('should only write the indexes missing in the given database', async () => {
+    queryErrorContent(missingIndexError('analytics', 'events'), 'listing documents');
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'firestore-indexes-'));
+
+    const analytics = JSON.parse((await generateIndexes(path.join(dir, 'analytics.indexes.json'), 'analytics')).content[0].text);
+    expect(analytics.database).toBe('analytics');
+    expect(analytics.added.map((index: { collectionGroup: string }) => index.collectionGroup)).toEqual(['events']);
+
+    const defaults = JSON.parse((await generateIndexes(path.join(dir, 'firestore.indexes.json'))).content[0].text);
+    expect(defaults.database).toBe('(default)');
+    expect(defaults.added.map((index: { collectionGroup: string }) => index.collectionGroup)).not.toContain('events');
+  });
+});
@@ -0,0 +1,69 @@
+import {
+  applyEffectiveOrderBy,
+  decodePageToken,
+  encodePageToken,
+  getEffectiveOrderBy,
+  projectFields,
+  queryFingerprint
+} from '../firestorePaging';
+import { admin } from '../firebaseConfig';
+import { FieldPath } from 'firebase-admin/firestore';
+
+/**
+ * Firestore Pagination Tests
+ *
+ * These tests verify page token encoding, query fingerprints and the effective
+ * ordering used for cursors. Queries are only built and compared, never executed.
+ */
+describe('Firestore Pagination', () => {
+  const db = admin.firestore();
+
+  // Test token round trips
+  it('should round-trip cursor values through an opaque token', () => {
+    const fingerprint = queryFingerprint('orders', [{ field: 'status', operator: '==', value: 'open' }]);
+    const token = encodePageToken(fingerprint, [5, { __type: 'reference', path: 'orders/o1' }]);
+
+    expect(token).not.toContain('orders/o1');
+    expect(decodePageToken(token, fingerprint)).toEqual([5, { __type: 'reference', path: 'orders/o1' }]);
+  });
+
+  // Test rejecting tokens from other queries
+  it('should reject tokens used with a different query', () => {
+    const token = encodePageToken(queryFingerprint('orders', [], { orderBy: [{ field: 'total' }] }), [5]);
+
+    expect(() => decodePageToken(token, queryFingerprint('orders'))).toThrow('issued for a different query');
+    expect(() => decodePageToken(token, queryFingerprint('users', [], { orderBy: [{ field: 'total' }] }))).toThrow('issued for a different query');
+    expect(() => decodePageToken('not-a-token', queryFingerprint('orders'))).toThrow('Invalid pageToken');
+  });
+
+  // Test that the limit and field mask do not change the fingerprint
+  it('should ignore the field mask in fingerprints', () => {
+    expect(queryFingerprint('orders', [], { select: ['a'] })).toBe(queryFingerprint('orders', [], { select: ['b'] }));
+  });
+
+  // Test implicit ordering
+  it('should add inequality fields and the document name to the ordering', () => {
+    const orderBy = getEffectiveOrderBy(
+      [{ or: [{ field: 'total', operator: '>', value: 10 }, { field: 'age', operator: '!=', value: 3 }] }],
+      [{ field: 'createdAt', direction: 'desc' }]
+    );
+
+    expect(orderBy).toEqual([
+      { field: 'createdAt', direction: 'desc' },
+      { field: 'age', direction: 'desc' },
+      { field: 'total', direction: 'desc' },
+      { field: '__name__', direction: 'desc' }
+    ]);
+
+    const collection = db.collection('orders');
+    const query = applyEffectiveOrderBy(collection.orderBy('createdAt', 'desc'), [{ field: 'createdAt', direction: 'desc' }], orderBy);
+    const expected = collection.orderBy('createdAt', 'desc').orderBy('age', 'desc').orderBy('total', 'desc').orderBy(FieldPath.documentId(), 'desc');
+    expect(query.isEqual(expected)).toBe(true);
+  });
+
+  // Test field projection
+  it('should keep only the selected field paths', () => {
+    const data = { title: 'A', total: 5, address: { city: 'Paris', zip: '75001' } };
+    expect(projectFields(data, ['title', 'address.city', 'missing'])).toEqual({ title: 'A', address: { city: 'Paris' } });
+  });
+});
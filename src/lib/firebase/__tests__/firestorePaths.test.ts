@@ -0,0 +1,43 @@
+import { getConsoleUrl, normalizeCollectionPath, normalizeDocumentPath, resolveDocumentPath } from '../firestorePaths';
+import { getProjectId } from '../firebaseConfig';
+
+/**
+ * Firestore Path Tests
+ *
+ * These tests verify path validation and console link generation for
+ * collections and documents at any depth.
+ */
+describe('Firestore Paths', () => {
+  // Test segment count validation
+  it('should validate collection and document paths by segment count', () => {
+    expect(normalizeCollectionPath('/users/u1/orders/')).toBe('users/u1/orders');
+    expect(normalizeDocumentPath('users/u1/orders/o9')).toBe('users/u1/orders/o9');
+
+    expect(() => normalizeCollectionPath('users/u1')).toThrow("Invalid collection path 'users/u1'");
+    expect(() => normalizeDocumentPath('users/u1/orders')).toThrow("Invalid document path 'users/u1/orders'");
+    expect(() => normalizeDocumentPath('users//u1')).toThrow('empty segments');
+    expect(() => normalizeDocumentPath('')).toThrow('a non-empty path is required');
+  });
+
+  // Test resolving collection and ID pairs
+  it('should resolve a document path from a collection and ID or a full path', () => {
+    expect(resolveDocumentPath('users/u1/orders', 'o9')).toBe('users/u1/orders/o9');
+    expect(resolveDocumentPath('users/u1/orders/o9')).toBe('users/u1/orders/o9');
+    expect(() => resolveDocumentPath('users', 'u1/orders')).toThrow("IDs cannot contain '/'");
+  });
+
+  // Test console links
+  it('should build console links for any depth', () => {
+    const baseUrl = `https://console.firebase.google.com/project/${getProjectId()}/firestore/databases/-default-/data`;
+    expect(getConsoleUrl()).toBe(baseUrl);
+    expect(getConsoleUrl('users')).toBe(`${baseUrl}/~2Fusers`);
+    expect(getConsoleUrl('users/u 1/orders/o9')).toBe(`${baseUrl}/~2Fusers~2Fu%201~2Forders~2Fo9`);
+  });
+
+  // Test console links of named databases
+  it('should build console links for the chosen database', () => {
+    const projectUrl = `https://console.firebase.google.com/project/${getProjectId()}/firestore/databases`;
+    expect(getConsoleUrl('events/e1', 'analytics')).toBe(`${projectUrl}/analytics/data/~2Fevents~2Fe1`);
+    expect(getConsoleUrl(undefined, '(default)')).toBe(`${projectUrl}/-default-/data`);
+  });
+});
@@ -0,0 +1,95 @@
+import { applyQueryOptions, buildAggregateSpec, buildFilter } from '../firestoreQuery';
+import { admin } from '../firebaseConfig';
+import { AggregateField, Filter } from 'firebase-admin/firestore';
+
+/**
+ * Firestore Query Builder Tests
+ *
+ * These tests verify that the JSON filter model is translated into the equivalent
+ * Firestore queries. Queries are only built and compared, never executed.
+ */
+describe('Firestore Query Builder', () => {
+  const db = admin.firestore();
+  const collection = db.collection('orders');
+
+  // Test plain conditions
+  it('should combine top-level conditions with AND', () => {
+    const query = applyQueryOptions(collection, [
+      { field: 'status', operator: '==', value: 'pending' },
+      { field: 'total', operator: '>', value: 10 }
+    ]);
+
+    const expected = collection
+      .where('status', '==', 'pending')
+      .where('total', '>', 10);
+    expect(query.isEqual(expected)).toBe(true);
+  });
+
+  // Test nested groups
+  it('should build nested or/and groups', () => {
+    const query = applyQueryOptions(collection, [
+      { or: [
+        { field: 'status', operator: '==', value: 'pending' },
+        { and: [
+          { field: 'status', operator: '==', value: 'failed' },
+          { field: 'retries', operator: '<', value: 3 }
+        ]}
+      ]}
+    ]);
+
+    const expected = collection.where(Filter.or(
+      Filter.where('status', '==', 'pending'),
+      Filter.and(
+        Filter.where('status', '==', 'failed'),
+        Filter.where('retries', '<', 3)
+      )
+    ));
+    expect(query.isEqual(expected)).toBe(true);
+  });
+
+  // Test ordering and cursors
+  it('should apply ordering and cursor bounds', () => {
+    const query = applyQueryOptions(collection, [], {
+      orderBy: [{ field: 'priority', direction: 'desc' }, { field: 'name' }],
+      startAt: [5, 'a'],
+      endBefore: [1, 'z']
+    });
+
+    const expected = collection
+      .orderBy('priority', 'desc')
+      .orderBy('name', 'asc')
+      .startAt(5, 'a')
+      .endBefore(1, 'z');
+    expect(query.isEqual(expected)).toBe(true);
+  });
+
+  // Test validation errors
+  it('should reject malformed filters and cursors', () => {
+    expect(() => buildFilter({ or: [] }, db)).toThrow("'or' must be a non-empty array");
+    expect(() => buildFilter({ field: '', operator: '==', value: 1 }, db)).toThrow('require a field and an operator');
+    expect(() => applyQueryOptions(collection, [], { startAt: [1] })).toThrow('require orderBy');
+    expect(() => applyQueryOptions(collection, [], {
+      orderBy: [{ field: 'name', direction: 'up' as any }]
+    })).toThrow("Invalid orderBy direction 'up'");
+  });
+
+  // Test aggregation specs
+  it('should build aggregate specs with default aliases', () => {
+    const spec = buildAggregateSpec([
+      { type: 'count' },
+      { type: 'sum', field: 'total' },
+      { type: 'average', field: 'total', alias: 'avgTotal' }
+    ]);
+
+    expect(Object.keys(spec)).toEqual(['count', 'sum_total', 'avgTotal']);
+    expect(spec.sum_total.isEqual(AggregateField.sum('total'))).toBe(true);
+    expect(spec.avgTotal.isEqual(AggregateField.average('total'))).toBe(true);
+    expect(Object.keys(buildAggregateSpec())).toEqual(['count']);
+  });
+
+  // Test aggregation validation errors
+  it('should reject malformed aggregations', () => {
+    expect(() => buildAggregateSpec([{ type: 'sum' }])).toThrow("'sum' requires a field");
+    expect(() => buildAggregateSpec([{ type: 'count' }, { type: 'count' }])).toThrow("duplicate alias 'count'");
+  });
+});
@@ -0,0 +1,58 @@
+import { checkReferences } from '../firestoreReferences';
+import { admin } from '../firebaseConfig';
+
+/**
+ * Firestore Reference Integrity Tests
+ *
+ * These tests verify that reference fields and declared foreign keys pointing at
+ * missing documents are reported.
+ * Tests run against the Firebase emulator when available.
+ */
+describe('Firestore Reference Integrity', () => {
+  const collectionName = 'test_references_orders';
+  const usersCollection = 'test_references_users';
+
+  // Setup: Create one user and orders linking to existing and deleted users
+  beforeAll(async () => {
+    try {
+      const db = admin.firestore();
+      await db.recursiveDelete(db.collection(collectionName));
+      await db.recursiveDelete(db.collection(usersCollection));
+      await db.doc(`${usersCollection}/alice`).set({ name: 'Alice' });
+      await db.doc(`${collectionName}/o1`).set({ userId: 'alice', user: db.doc(`${usersCollection}/alice`) });
+      await db.doc(`${collectionName}/o2`).set({ userId: 'bob', user: db.doc(`${usersCollection}/bob`) });
+      await db.doc(`${collectionName}/o3`).set({ items: [{ buyer: db.doc(`${usersCollection}/carol`) }] });
+    } catch (error) {
+      console.error('Error in test setup:', error);
+    }
+  });
+
+  // Test finding dangling references
+  it('should report references and foreign keys whose target does not exist', async () => {
+    const result = await checkReferences(collectionName, [{ field: 'userId', collection: usersCollection }]);
+
+    // Verify the counts
+    expect(result.isError).toBeUndefined();
+    const responseData = JSON.parse(result.content[0].text);
+    expect(responseData).toMatchObject({ scanned: 3, referencesChecked: 5, danglingReferences: 3 });
+    expect(responseData.fields).toEqual([
+      { field: 'items[].buyer', checked: 1, dangling: 1 },
+      { field: 'user', checked: 2, dangling: 1 },
+      { field: 'userId', checked: 2, dangling: 1 }
+    ]);
+
+    // Verify the dangling references
+    expect(responseData.dangling).toEqual([
+      { document: `${collectionName}/o2`, field: 'user', target: `${usersCollection}/bob` },
+      { document: `${collectionName}/o2`, field: 'userId', target: `${usersCollection}/bob` },
+      { document: `${collectionName}/o3`, field: 'items[].buyer', target: `${usersCollection}/carol` }
+    ]);
+  });
+
+  // Test input validation
+  it('should reject foreign keys without a collection', async () => {
+    const result = await checkReferences(collectionName, [{ field: 'userId' } as any]);
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toBe('Error checking references: Each foreign key requires a field and a collection');
+  });
+});
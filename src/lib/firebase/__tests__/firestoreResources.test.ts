@@ -0,0 +1,61 @@
+import { listResources, readResource, saveQuery, subscribeResource, unsubscribeAll } from '../firestoreResources';
+import { admin } from '../firebaseConfig';
+
+/**
+ * Firestore Resource Tests
+ *
+ * These tests verify reading documents and saved queries as resources and
+ * the change notifications of subscriptions.
+ * Tests run against the Firebase emulator when available.
+ */
+describe('Firestore Resources', () => {
+  const collectionName = 'test_resources_collection';
+
+  // Setup: Create a job document to watch
+  beforeAll(async () => {
+    try {
+      const db = admin.firestore();
+      await db.recursiveDelete(db.collection(collectionName));
+      await db.doc(`${collectionName}/job1`).set({ status: 'running' });
+    } catch (error) {
+      console.error('Error in test setup:', error);
+    }
+  });
+
+  // Cleanup: Detach all listeners
+  afterAll(() => {
+    unsubscribeAll();
+  });
+
+  // Test reading resources
+  it('should read documents and saved queries', async () => {
+    const document = await readResource(`firestore://document/${collectionName}/job1`);
+    expect(JSON.parse(document.contents[0].text).document).toEqual({ status: 'running' });
+
+    const saved = await saveQuery('running', collectionName, [{ field: 'status', operator: '==', value: 'running' }]);
+    expect(saved.isError).toBeUndefined();
+    const { uri } = JSON.parse(saved.content[0].text);
+    expect(listResources().map(resource => resource.uri)).toContain(uri);
+
+    const query = await readResource(uri);
+    expect(JSON.parse(query.contents[0].text).documents).toHaveLength(1);
+  });
+
+  // Test rejecting unknown resources
+  it('should reject unsupported URIs and unknown queries', async () => {
+    await expect(readResource('firestore://query/missing')).rejects.toThrow("Unknown saved query 'missing'");
+    await expect(readResource('https://example.com')).rejects.toThrow('Unsupported resource URI');
+  });
+
+  // Test change notifications
+  it('should notify subscribers when a document changes', async () => {
+    const uri = `firestore://document/${collectionName}/job1`;
+    const updated = new Promise<void>(resolve => subscribeResource(uri, resolve));
+
+    // Give the listener time to receive its initial snapshot before changing the document
+    await new Promise(resolve => setTimeout(resolve, 500));
+    await admin.firestore().doc(`${collectionName}/job1`).update({ status: 'done' });
+
+    await expect(updated).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,67 @@
+import { inferSchema } from '../firestoreSchema';
+import { admin } from '../firebaseConfig';
+
+/**
+ * Firestore Schema Inference Tests
+ *
+ * These tests verify that field types, presence and references are inferred from sampled documents.
+ * Tests run against the Firebase emulator when available.
+ */
+describe('Firestore Schema Inference', () => {
+  const collectionName = 'test_schema_collection';
+
+  // Setup: Create documents with a known shape
+  beforeAll(async () => {
+    try {
+      const db = admin.firestore();
+      await db.recursiveDelete(db.collection(collectionName));
+      await db.doc(`${collectionName}/a`).set({
+        name: 'Alice',
+        owner: db.doc('users/alice'),
+        address: { city: 'Paris' },
+        tags: ['x', 'y']
+      });
+      await db.doc(`${collectionName}/b`).set({ name: 42, tags: [] });
+    } catch (error) {
+      console.error('Error in test setup:', error);
+    }
+  });
+
+  // Test inferring a schema
+  it('should report types, presence and references per field path', async () => {
+    const result = await inferSchema(collectionName);
+
+    // Verify the response format
+    expect(result.isError).toBeUndefined();
+    const responseData = JSON.parse(result.content[0].text);
+    expect(responseData.sampled).toBe(2);
+
+    // Verify individual fields
+    const fields = Object.fromEntries(responseData.fields.map((field: { path: string }) => [field.path, field]));
+    expect(fields.name.types).toEqual({ string: 1, integer: 1 });
+    expect(fields.name.presence).toBe(100);
+    expect(fields['address.city'].presence).toBe(50);
+    expect(fields['address.city'].examples).toEqual(['Paris']);
+    expect(fields['tags[]'].types).toEqual({ string: 2 });
+    expect(fields.owner.references).toEqual(['users']);
+  });
+
+  // Test empty collections
+  it('should report an error for an empty collection', async () => {
+    const result = await inferSchema('test_schema_empty_collection');
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toBe('No documents found to sample');
+  });
+
+  // Test input validation
+  it('should reject invalid sample sizes and empty collection group IDs', async () => {
+    for (const sampleSize of [0, -1, 2.5, 20000]) {
+      const result = await inferSchema(collectionName, sampleSize);
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toBe(`Error inferring schema: Invalid sample size ${sampleSize}: must be an integer between 1 and 10000`);
+    }
+    const result = await inferSchema('', 100, true);
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toBe("Error inferring schema: Invalid collection ID '': collection group queries take a collection ID without slashes");
+  });
+});
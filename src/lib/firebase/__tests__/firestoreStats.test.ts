@@ -0,0 +1,68 @@
+import { collectionStats, estimateDocumentSize } from '../firestoreStats';
+import { admin } from '../firebaseConfig';
+import { Timestamp } from 'firebase-admin/firestore';
+
+/**
+ * Firestore Collection Statistics Tests
+ *
+ * These tests verify document size estimates and the statistics reported for a collection.
+ * Tests run against the Firebase emulator when available.
+ */
+describe('Firestore Collection Statistics', () => {
+  const collectionName = 'test_stats_collection';
+
+  // Setup: Create documents with known fields, dates and subcollections
+  beforeAll(async () => {
+    try {
+      const db = admin.firestore();
+      await db.recursiveDelete(db.collection(collectionName));
+      await db.doc(`${collectionName}/a`).set({ status: 'open', name: 'A', createdAt: Timestamp.fromMillis(1000) });
+      await db.doc(`${collectionName}/b`).set({ status: 'open', name: 'B', createdAt: Timestamp.fromMillis(3000) });
+      await db.doc(`${collectionName}/c`).set({ status: 'closed', name: 'C', createdAt: Timestamp.fromMillis(2000) });
+      await db.doc(`${collectionName}/a/items/i1`).set({ quantity: 1 });
+    } catch (error) {
+      console.error('Error in test setup:', error);
+    }
+  });
+
+  // Test document size estimates
+  it('should estimate document sizes with the Firestore storage size rules', () => {
+    // Name: 'users' (6) + 'alice' (6) + 16; fields: 'name' (5) + 'Alice' (6), 'age' (4) + 8; plus 32
+    expect(estimateDocumentSize('users/alice', { name: 'Alice', age: 30 })).toBe(83);
+    // Name: 7 + 3 + 16; fields: 5 + 4, 8 + 11, 5 + 1, 6 + 8; plus 32
+    expect(estimateDocumentSize('orders/o1', { tags: ['a', 'b'], address: { city: 'Paris' }, paid: true, total: 1.5 })).toBe(106);
+  });
+
+  // Test collection statistics
+  it('should report the count, sizes, low-cardinality fields, date range and subcollections', async () => {
+    const result = await collectionStats(collectionName, 100, 'createdAt');
+
+    // Verify the response format
+    expect(result.isError).toBeUndefined();
+    const responseData = JSON.parse(result.content[0].text);
+    expect(responseData.count).toBe(3);
+    expect(responseData.sampled).toBe(3);
+    expect(responseData.size.maxBytes).toBeGreaterThanOrEqual(responseData.size.averageBytes);
+
+    // Names are unique, so only the status field is reported
+    expect(responseData.lowCardinalityFields).toEqual([
+      { field: 'status', documents: 3, values: [{ value: 'open', count: 2 }, { value: 'closed', count: 1 }] }
+    ]);
+
+    // Verify the date range and subcollections
+    expect(responseData.timestampRange.oldest.path).toBe(`${collectionName}/a`);
+    expect(responseData.timestampRange.newest.path).toBe(`${collectionName}/b`);
+    expect(responseData.subcollections).toEqual([{ name: 'items', documents: 1 }]);
+  });
+
+  // Test input validation
+  it('should reject an invalid sample size', async () => {
+    const result = await collectionStats(collectionName, 0);
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toBe('Error collecting collection statistics: Invalid sample size 0: must be an integer between 1 and 10000');
+
+    const tooLarge = await collectionStats(collectionName, 10001);
+    expect(tooLarge.isError).toBe(true);
+    expect(tooLarge.content[0].text).toBe('Error collecting collection statistics: Invalid sample size 10001: must be an integer between 1 and 10000');
+  });
+});
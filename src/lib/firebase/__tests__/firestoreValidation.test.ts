@@ -0,0 +1,162 @@
+import { applyWrite, checkWrites, findSchemas, SchemaValidationError, validateValue, writeErrorContent } from '../firestoreValidation';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+/**
+ * Firestore Schema Validation Tests
+ *
+ * These tests verify the JSON Schema validator, how writes are applied to compute the
+ * stored document and how schemas are matched to document paths. No Firestore requests are made.
+ */
+describe('Firestore Schema Validation', () => {
+  const configPath = path.join(os.tmpdir(), `firestore-schemas-${process.pid}.json`);
+  const userSchema = {
+    type: 'object',
+    required: ['email', 'age'],
+    additionalProperties: false,
+    properties: {
+      email: { type: 'string', format: 'email' },
+      age: { type: 'integer', minimum: 0 },
+      tags: { type: 'array', items: { type: 'string' }, uniqueItems: true },
+      createdAt: { firestoreType: 'timestamp' },
+      address: { type: 'object', properties: { zip: { type: 'string', pattern: '^\\d{5}$' } } }
+    }
+  };
+
+  beforeAll(() => {
+    fs.writeFileSync(configPath, JSON.stringify({ schemas: { 'users/{uid}': userSchema, 'users/{uid}/orders/{orderId}': { required: ['total'] } } }));
+    process.env.FIRESTORE_SCHEMA_CONFIG = configPath;
+  });
+
+  afterAll(() => {
+    delete process.env.FIRESTORE_SCHEMA_CONFIG;
+    fs.rmSync(configPath, { force: true });
+  });
+
+  // Test field-level errors
+  it('should report each invalid field with its path', () => {
+    const issues = validateValue({
+      email: 'not-an-email',
+      age: -1,
+      tags: ['a', 'a', 3],
+      address: { zip: 'N1' },
+      nickname: 'x'
+    }, userSchema);
+
+    expect(issues).toEqual([
+      { field: 'nickname', keyword: 'additionalProperties', message: 'is not allowed by the schema' },
+      { field: 'email', keyword: 'format', message: 'must match format "email"' },
+      { field: 'age', keyword: 'minimum', message: 'must be >= 0' },
+      { field: 'tags[2]', keyword: 'type', message: 'must be string' },
+      { field: 'tags', keyword: 'uniqueItems', message: 'must NOT have duplicate items (items ## 1 and 0 are identical)' },
+      { field: 'address.zip', keyword: 'pattern', message: 'must match pattern "^\\d{5}$"' }
+    ]);
+    expect(validateValue({ email: 'a@example.com' }, userSchema)).toEqual([
+      { field: 'age', keyword: 'required', message: 'is required' }
+    ]);
+  });
+
+  // Test the JSON view of Firestore types
+  it('should validate typed values in their JSON view and by Firestore type', () => {
+    const createdAt = { __type: 'timestamp', value: '2024-01-01T12:00:00.000000000Z' };
+    expect(validateValue(createdAt, { type: 'string', format: 'date-time' })).toEqual([]);
+    expect(validateValue(createdAt, { firestoreType: 'timestamp' })).toEqual([]);
+    expect(validateValue('2024-01-01T12:00:00Z', { firestoreType: 'timestamp' })).toEqual([
+      { field: '', keyword: 'firestoreType', message: 'must be a Firestore timestamp, got string' }
+    ]);
+    expect(validateValue({ email: 'a@example.com', age: 1, createdAt: '2024-01-01' }, userSchema)).toEqual([
+      { field: 'createdAt', keyword: 'firestoreType', message: 'must be a Firestore timestamp, got string' }
+    ]);
+    expect(validateValue({ __type: 'reference', path: 'users/alice' }, { type: 'string', pattern: '^users/' })).toEqual([]);
+    expect(validateValue({ __type: 'vector', values: [1, 2, 3] }, { type: 'array', maxItems: 2 })).toEqual([
+      { field: '', keyword: 'maxItems', message: 'must NOT have more than 2 items' }
+    ]);
+  });
+
+  // Test combinators
+  it('should support anyOf, oneOf and not', () => {
+    const schema = { anyOf: [{ type: 'string' }, { type: 'null' }], not: { const: 'forbidden' } };
+    expect(validateValue(null, schema)).toEqual([]);
+    expect(validateValue(1, schema).map(issue => issue.keyword)).toEqual(['anyOf']);
+    expect(validateValue('forbidden', schema).map(issue => issue.keyword)).toEqual(['not']);
+    expect(validateValue(5, { oneOf: [{ type: 'integer' }, { type: 'number' }] }).map(issue => issue.keyword)).toEqual(['oneOf']);
+  });
+
+  // Test computing the stored document
+  it('should apply updates, merges and sentinels to the current document', () => {
+    const before = { visits: 1, tags: ['a'], address: { city: 'London', zip: '12345' }, legacy: true };
+
+    expect(applyWrite(before, {
+      type: 'update',
+      path: 'users/alice',
+      data: {
+        visits: { __type: 'increment', operand: 2 },
+        tags: { __type: 'arrayUnion', elements: ['a', 'b'] },
+        'address.city': 'Paris',
+        legacy: { __type: 'deleteField' }
+      }
+    })).toEqual({ visits: 3, tags: ['a', 'b'], address: { city: 'Paris', zip: '12345' } });
+
+    expect(applyWrite(before, { type: 'set', path: 'users/alice', data: { address: { city: 'Paris' } }, merge: true }))
+      .toEqual({ ...before, address: { city: 'Paris', zip: '12345' } });
+    expect(applyWrite(before, { type: 'set', path: 'users/alice', data: { address: { city: 'Paris' } } }))
+      .toEqual({ address: { city: 'Paris' } });
+    expect(applyWrite(before, { type: 'set', path: 'users/alice', data: { address: { city: 'Paris' }, visits: 9 }, mergeFields: ['address.city'] }))
+      .toEqual({ ...before, address: { city: 'Paris', zip: '12345' } });
+    expect(applyWrite(before, { type: 'delete', path: 'users/alice' })).toBeNull();
+  });
+
+  // Test path patterns
+  it('should match schemas by document path pattern', () => {
+    expect(findSchemas('users/alice').map(match => match.pattern)).toEqual(['users/{uid}']);
+    expect(findSchemas('/users/alice/orders/o1/').map(match => match.pattern)).toEqual(['users/{uid}/orders/{orderId}']);
+    expect(findSchemas('products/p1')).toEqual([]);
+  });
+
+  // Test validating a list of writes
+  it('should validate the documents left by a list of writes', () => {
+    const before = new Map([['users/alice', { email: 'alice@example.com', age: 30 }]]);
+
+    // A valid update and an unvalidated collection pass
+    expect(() => checkWrites([
+      { type: 'update', path: 'users/alice', data: { age: 31 } },
+      { type: 'set', path: 'products/p1', data: { anything: true } }
+    ], before)).not.toThrow();
+
+    // Later writes to the same document are applied on top of earlier ones
+    let thrown: any;
+    try {
+      checkWrites([
+        { type: 'update', path: 'users/alice', data: { age: 31 } },
+        { type: 'update', path: 'users/alice', data: { age: { __type: 'increment', operand: -40 } } },
+        { type: 'create', path: 'users/alice/orders/o1', data: { note: 'no total' } }
+      ], before);
+    } catch (error) {
+      thrown = error;
+    }
+    expect(thrown).toBeInstanceOf(SchemaValidationError);
+    expect(thrown.documents).toEqual([
+      { path: 'users/alice', schema: 'users/{uid}', errors: [{ field: 'age', keyword: 'minimum', message: 'must be >= 0' }] },
+      { path: 'users/alice/orders/o1', schema: 'users/{uid}/orders/{orderId}', errors: [{ field: 'total', keyword: 'required', message: 'is required' }] }
+    ]);
+
+    // The error is reported as structured MCP content
+    const content = JSON.parse(writeErrorContent(thrown, 'committing batch')[0].text);
+    expect(content.error).toBe('Error committing batch: 2 documents do not match the schemas registered for their paths; nothing was written');
+    expect(content.invalidDocuments).toHaveLength(2);
+  });
+
+  // Test config errors
+  it('should reject schemas with unknown keywords', () => {
+    const invalidPath = path.join(os.tmpdir(), `firestore-schemas-invalid-${process.pid}.json`);
+    fs.writeFileSync(invalidPath, JSON.stringify({ schemas: { 'users/{uid}': { properties: { name: { minLenght: 1 } } } } }));
+    process.env.FIRESTORE_SCHEMA_CONFIG = invalidPath;
+    try {
+      expect(() => findSchemas('users/alice')).toThrow(`schema for 'users/{uid}' is invalid: strict mode: unknown keyword: "minLenght"`);
+    } finally {
+      process.env.FIRESTORE_SCHEMA_CONFIG = configPath;
+      fs.rmSync(invalidPath, { force: true });
+    }
+  });
+});
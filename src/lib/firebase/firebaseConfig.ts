@@ -9,13 +9,18 @@
  * Environment variables used:
  * - SERVICE_ACCOUNT_KEY_PATH: Path to the Firebase service account key JSON file (required)
  * - FIREBASE_STORAGE_BUCKET: Custom bucket name for Firebase Storage (optional)
+ * - FIRESTORE_DATABASE: ID of the Firestore database used when a tool does not name one (optional, default '(default)')
  * 
  * @module firebase-mcp/config
  */
 
 import * as admin from 'firebase-admin';
+import { Firestore, getFirestore as getAdminFirestore } from 'firebase-admin/firestore';
 import fs from 'fs';
 
+/** ID of the default Firestore database of a project */
+const DEFAULT_DATABASE_ID = '(default)';
+
 /**
  * Initializes the Firebase Admin SDK with service account credentials.
  * This function handles the complete initialization process including:
@@ -125,9 +130,45 @@ function getProjectId(serviceAccountPath?: string): string {
   }
 }
 
-// Initialize Firebase and get Firestore instance
+/**
+ * Resolves the ID of the Firestore database a tool works against.
+ * 
+ * @param {string} [database] - Database ID given to the tool
+ * @returns {string} The given ID, or the server default from FIRESTORE_DATABASE, or '(default)'
+ */
+function getDatabaseId(database?: string): string {
+  return database || process.env.FIRESTORE_DATABASE || DEFAULT_DATABASE_ID;
+}
+
+/** Firestore instances by database ID, so each database keeps a single client */
+const firestoreInstances = new Map<string, Firestore>();
+
+/**
+ * Returns the Firestore instance of a database in the project.
+ * 
+ * @param {string} [database] - Database ID; defaults to FIRESTORE_DATABASE or the '(default)' database
+ * @returns {Firestore|null} The Firestore instance, or null if Firebase is not initialized
+ * 
+ * @example
+ * // Work against a named database
+ * const analytics = getFirestore('analytics');
+ */
+function getFirestore(database?: string): Firestore | null {
+  if (!adminApp) {
+    return null;
+  }
+  const databaseId = getDatabaseId(database);
+  let firestore = firestoreInstances.get(databaseId);
+  if (!firestore) {
+    firestore = databaseId === DEFAULT_DATABASE_ID ? admin.firestore() : getAdminFirestore(adminApp, databaseId);
+    firestoreInstances.set(databaseId, firestore);
+  }
+  return firestore;
+}
+
+// Initialize Firebase and get the Firestore instance of the server's default database
 const adminApp = initializeFirebase();
-const db = adminApp ? admin.firestore() : null;
+const db = getFirestore();
 
 // Export the initialized services and utility functions
-export { db, admin, getProjectId };
+export { db, admin, getDatabaseId, getFirestore, getProjectId };
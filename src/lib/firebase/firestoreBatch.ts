@@ -0,0 +1,387 @@
+/**
+ * Firestore Batch and Transaction Client
+ *
+ * This module provides functions for applying several Firestore writes atomically.
+ * Batch writes commit a fixed list of operations in one request, while transactions
+ * read documents first, apply only the operations whose conditions hold and are retried
+ * automatically by Firestore when the documents change concurrently. Documents with a schema
+ * registered for their path are validated as they will be stored before anything is committed.
+ * All functions return data in a format compatible with the MCP protocol response structure.
+ *
+ * @module firebase-mcp/firestore-batch
+ */
+
+import { DocumentSnapshot, Firestore, Transaction, WhereFilterOp, WriteBatch } from 'firebase-admin/firestore';
+import { getFirestore } from './firebaseConfig';
+import { decodeDocument, decodeValue, encodeDocument, encodeValue } from './firestoreCodec';
+import { getConsoleUrl, normalizeDocumentPath } from './firestorePaths';
+import { checkWrites, hasSchema, writeErrorContent } from './firestoreValidation';
+
+/** Maximum number of writes Firestore accepts in a single batch or transaction */
+const MAX_WRITES = 500;
+
+/**
+ * A condition on a document read inside a transaction.
+ * Either checks whether the document exists, or compares one of its fields.
+ *
+ * @property {string} [path] - Document to check (defaults to the operation's document)
+ * @property {boolean} [exists] - Whether the document must exist (true) or must not exist (false)
+ * @property {string} [field] - Field path to compare
+ * @property {string} [operator] - Comparison operator, as in Firestore queries
+ * @property {any} [value] - Value to compare against, in typed JSON encoding
+ */
+export interface WriteCondition {
+  path?: string;
+  exists?: boolean;
+  field?: string;
+  operator?: WhereFilterOp;
+  value?: any;
+}
+
+/**
+ * A single write applied as part of a batch or transaction.
+ *
+ * @property {string} type - One of 'create', 'set', 'update' or 'delete'
+ * @property {string} path - Full document path, e.g. 'users/alice/orders/o1'
+ * @property {Object} [data] - Document data in typed JSON encoding (not used for delete)
+ * @property {boolean} [merge] - For set, merge the data into an existing document
+ * @property {WriteCondition} [condition] - Transactions only: apply the write only if the condition holds
+ */
+export interface WriteOperation {
+  type: 'create' | 'set' | 'update' | 'delete';
+  path: string;
+  data?: any;
+  merge?: boolean;
+  condition?: WriteCondition;
+}
+
+/**
+ * Adds a write operation to a batch or transaction.
+ *
+ * @param {WriteBatch|Transaction} writer - The batch or transaction to write with
+ * @param {WriteOperation} operation - The operation to apply
+ * @param {Firestore} firestore - The Firestore instance the operation targets
+ * @throws {Error} If the operation is malformed
+ * @private
+ */
+function applyWriteOperation(writer: WriteBatch | Transaction, operation: WriteOperation, firestore: Firestore) {
+  const ref = firestore.doc(operation.path);
+  // WriteBatch and Transaction share these methods but not a common type
+  const target = writer as WriteBatch;
+
+  switch (operation.type) {
+    case 'create':
+      target.create(ref, decodeDocument(operation.data, firestore));
+      break;
+    case 'set':
+      target.set(ref, decodeDocument(operation.data, firestore), { merge: !!operation.merge });
+      break;
+    case 'update':
+      target.update(ref, decodeDocument(operation.data, firestore));
+      break;
+    case 'delete':
+      target.delete(ref);
+      break;
+    default:
+      throw new Error(`Invalid operation type '${(operation as WriteOperation).type}': expected 'create', 'set', 'update' or 'delete'`);
+  }
+}
+
+/**
+ * Validates the list of operations shared by batch writes and transactions.
+ *
+ * @param {Array<WriteOperation>} operations - The operations to validate
+ * @throws {Error} If the list is empty, too long, or an operation has no valid document path
+ * @private
+ */
+function validateOperations(operations: WriteOperation[]) {
+  if (!Array.isArray(operations) || operations.length === 0) {
+    throw new Error('At least one operation is required');
+  }
+  if (operations.length > MAX_WRITES) {
+    throw new Error(`Too many operations: ${operations.length} (maximum is ${MAX_WRITES})`);
+  }
+  for (const operation of operations) {
+    if (!operation || !operation.path) {
+      throw new Error('Every operation requires a document path');
+    }
+    normalizeDocumentPath(operation.path);
+    if (operation.condition?.path) {
+      normalizeDocumentPath(operation.condition.path);
+    }
+  }
+}
+
+/**
+ * Reads the current data of the documents whose validation depends on it: documents with a
+ * registered schema that are updated or merged into.
+ *
+ * @param {Array<WriteOperation>} operations - The operations to validate
+ * @param {Firestore} firestore - The Firestore instance the operations target
+ * @returns {Promise<Map<string, Object|null>>} Current data in typed JSON encoding by normalized path
+ * @private
+ */
+async function readValidatedDocuments(operations: WriteOperation[], firestore: Firestore): Promise<Map<string, Record<string, any> | null>> {
+  const paths = new Set<string>();
+  for (const operation of operations) {
+    const documentPath = normalizeDocumentPath(operation.path);
+    if ((operation.type === 'update' || (operation.type === 'set' && operation.merge)) && hasSchema(documentPath)) {
+      paths.add(documentPath);
+    }
+  }
+  if (paths.size === 0) {
+    return new Map();
+  }
+  const snapshots = await firestore.getAll(...[...paths].map(documentPath => firestore.doc(documentPath)));
+  return new Map(snapshots.map(snapshot => [snapshot.ref.path, encodeDocument(snapshot.data())]));
+}
+
+/**
+ * Compares two Firestore values for ordering.
+ *
+ * @param {any} a - Left-hand value
+ * @param {any} b - Right-hand value
+ * @returns {number|null} Negative, zero or positive, or null if the values are not comparable
+ * @private
+ */
+function compareValues(a: any, b: any): number | null {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  if (typeof a === 'string' && typeof b === 'string') {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+  // Timestamps expose a lexicographically sortable valueOf()
+  if (a && b && typeof a.toMillis === 'function' && typeof b.toMillis === 'function') {
+    const left = a.valueOf();
+    const right = b.valueOf();
+    return left < right ? -1 : left > right ? 1 : 0;
+  }
+  return null;
+}
+
+/**
+ * Checks two Firestore values for equality by comparing their typed JSON encodings.
+ *
+ * @param {any} a - Left-hand value
+ * @param {any} b - Right-hand value
+ * @returns {boolean} Whether the values are equal
+ * @private
+ */
+function valuesEqual(a: any, b: any): boolean {
+  return JSON.stringify(encodeValue(a)) === JSON.stringify(encodeValue(b));
+}
+
+/**
+ * Evaluates a write condition against a document snapshot.
+ *
+ * @param {WriteCondition} condition - The condition to evaluate
+ * @param {DocumentSnapshot} snapshot - The document the condition refers to
+ * @param {Firestore} firestore - The Firestore instance used to decode the comparison value
+ * @returns {boolean} Whether the condition holds
+ * @throws {Error} If the condition is malformed
+ * @private
+ */
+function evaluateCondition(condition: WriteCondition, snapshot: DocumentSnapshot, firestore: Firestore): boolean {
+  if (condition.exists !== undefined && snapshot.exists !== condition.exists) {
+    return false;
+  }
+  if (!condition.field) {
+    return true;
+  }
+  if (!condition.operator) {
+    throw new Error(`Invalid condition on '${condition.field}': an operator is required`);
+  }
+  if (!snapshot.exists) {
+    return false;
+  }
+
+  const actual = snapshot.get(condition.field);
+  const expected = decodeValue(condition.value, firestore);
+  switch (condition.operator) {
+    case '==':
+      return valuesEqual(actual, expected);
+    case '!=':
+      return actual !== undefined && !valuesEqual(actual, expected);
+    case '<':
+    case '<=':
+    case '>':
+    case '>=': {
+      const order = compareValues(actual, expected);
+      if (order === null) {
+        return false;
+      }
+      return condition.operator === '<' ? order < 0
+        : condition.operator === '<=' ? order <= 0
+        : condition.operator === '>' ? order > 0
+        : order >= 0;
+    }
+    case 'in':
+    case 'not-in': {
+      if (!Array.isArray(expected)) {
+        throw new Error(`Invalid condition on '${condition.field}': '${condition.operator}' requires an array value`);
+      }
+      const found = expected.some(item => valuesEqual(actual, item));
+      return condition.operator === 'in' ? found : actual !== undefined && !found;
+    }
+    case 'array-contains':
+      return Array.isArray(actual) && actual.some(item => valuesEqual(item, expected));
+    case 'array-contains-any':
+      return Array.isArray(actual) && Array.isArray(expected) && actual.some(item => expected.some((candidate: any) => valuesEqual(item, candidate)));
+    default:
+      throw new Error(`Invalid condition operator '${condition.operator}'`);
+  }
+}
+
+/**
+ * Commits a list of create, set, update and delete operations atomically in a single batch.
+ * Either every operation is applied or none is. If a written document does not match the schema
+ * registered for its path, nothing is committed; updates and merges are validated against the
+ * documents read just before the commit, so use transactionalWrite when they may change concurrently.
+ *
+ * @param {Array<WriteOperation>} operations - The operations to commit (at most 500)
+ * @param {string} [database] - Firestore database ID; defaults to the server's default database
+ * @returns {Promise<Object>} MCP-formatted response with the committed operations, or the field-level
+ *   errors of the documents that do not match their schemas
+ * @throws {Error} If Firebase is not initialized or if there's a Firestore error
+ *
+ * @example
+ * // Move a balance between two accounts atomically
+ * const result = await batchWrite([
+ *   { type: 'update', path: 'accounts/a', data: { balance: { __type: 'increment', operand: -10 } } },
+ *   { type: 'update', path: 'accounts/b', data: { balance: { __type: 'increment', operand: 10 } } }
+ * ]);
+ */
+export async function batchWrite(operations: WriteOperation[], database?: string) {
+  try {
+    // Check if Firebase is initialized
+    const db = getFirestore(database);
+    if (!db) {
+      return { content: [{ type: 'text', text: 'Firebase is not initialized. SERVICE_ACCOUNT_KEY_PATH environment variable is required.' }], isError: true };
+    }
+    const firestore = db;
+
+    validateOperations(operations);
+    if (operations.some(operation => operation.condition)) {
+      throw new Error('Conditions are only supported by firestore_transaction');
+    }
+
+    // Add every operation to one batch and validate the resulting documents before committing it
+    const batch = firestore.batch();
+    for (const operation of operations) {
+      applyWriteOperation(batch, operation, firestore);
+    }
+    checkWrites(operations, await readValidatedDocuments(operations, firestore));
+    const writeResults = await batch.commit();
+
+    // Build the results with console URLs for each written document
+    const results = operations.map((operation, index) => ({
+      type: operation.type,
+      path: operation.path,
+      url: getConsoleUrl(operation.path, firestore.databaseId),
+      writeTime: writeResults[index].writeTime.toDate().toISOString()
+    }));
+
+    // Format response for MCP
+    return { content: [{ type: 'text', text: JSON.stringify({ committed: results.length, results }) }] };
+  } catch (error) {
+    return { content: writeErrorContent(error, 'committing batch'), isError: true };
+  }
+}
+
+/**
+ * Runs a read-write transaction: reads the given documents and the documents targeted by the
+ * operations, applies each operation whose condition holds, and commits atomically.
+ * Firestore retries the whole transaction when a read document changes before the commit.
+ * The applied operations are validated against the documents read in the transaction, and the
+ * transaction is abandoned if a resulting document does not match the schema registered for its path.
+ *
+ * @param {Array<WriteOperation>} operations - The operations to apply, optionally with conditions
+ * @param {Array<string>} [reads=[]] - Additional document paths to read and return
+ * @param {number} [maxAttempts=5] - Maximum number of attempts when documents are contended
+ * @param {string} [database] - Firestore database ID; defaults to the server's default database
+ * @returns {Promise<Object>} MCP-formatted response with the read documents and applied/skipped operations, or the
+ *   field-level errors of the documents that do not match their schemas
+ * @throws {Error} If Firebase is not initialized or if there's a Firestore error
+ *
+ * @example
+ * // Reserve a seat only if it is still free
+ * const result = await transactionalWrite([
+ *   {
+ *     type: 'update',
+ *     path: 'seats/12A',
+ *     data: { status: 'reserved', holder: 'alice' },
+ *     condition: { field: 'status', operator: '==', value: 'free' }
+ *   }
+ * ]);
+ */
+export async function transactionalWrite(operations: WriteOperation[], reads: string[] = [], maxAttempts: number = 5, database?: string) {
+  try {
+    // Check if Firebase is initialized
+    const db = getFirestore(database);
+    if (!db) {
+      return { content: [{ type: 'text', text: 'Firebase is not initialized. SERVICE_ACCOUNT_KEY_PATH environment variable is required.' }], isError: true };
+    }
+    const firestore = db;
+
+    validateOperations(operations);
+
+    // Collect every document that must be read before writing
+    const paths = new Set<string>(reads);
+    for (const operation of operations) {
+      paths.add(operation.path);
+      if (operation.condition?.path) {
+        paths.add(operation.condition.path);
+      }
+    }
+    const refs = [...paths].map(documentPath => firestore.doc(documentPath));
+
+    const outcome = await firestore.runTransaction(async (transaction) => {
+      // All reads must happen before any write in a transaction
+      const snapshots = await transaction.getAll(...refs);
+      const snapshotsByPath = new Map(snapshots.map(snapshot => [snapshot.ref.path, snapshot]));
+
+      // Apply the operations whose conditions hold
+      const applied: WriteOperation[] = [];
+      const skipped: WriteOperation[] = [];
+      for (const operation of operations) {
+        const condition = operation.condition;
+        const snapshot = snapshotsByPath.get(firestore.doc(condition?.path || operation.path).path)!;
+        if (condition && !evaluateCondition(condition, snapshot, firestore)) {
+          skipped.push(operation);
+          continue;
+        }
+        applyWriteOperation(transaction, operation, firestore);
+        applied.push(operation);
+      }
+
+      // Throwing abandons the transaction, so nothing is written if a resulting document is invalid
+      checkWrites(applied, new Map(snapshots.map(snapshot => [snapshot.ref.path, encodeDocument(snapshot.data())])));
+
+      return { snapshots, applied, skipped };
+    }, { maxAttempts });
+
+    // Format the documents as they were read inside the transaction
+    const documents = outcome.snapshots.map(snapshot => ({
+      path: snapshot.ref.path,
+      url: getConsoleUrl(snapshot.ref.path, firestore.databaseId),
+      exists: snapshot.exists,
+      document: encodeDocument(snapshot.data())
+    }));
+    const describe = (operation: WriteOperation) => ({ type: operation.type, path: operation.path });
+
+    // Format response for MCP
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({
+          reads: documents,
+          applied: outcome.applied.map(describe),
+          skipped: outcome.skipped.map(describe)
+        })
+      }]
+    };
+  } catch (error) {
+    return { content: writeErrorContent(error, 'running transaction'), isError: true };
+  }
+}
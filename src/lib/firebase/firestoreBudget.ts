@@ -0,0 +1,125 @@
+/**
+ * Firestore Response Budget
+ *
+ * This module keeps document read responses within a maximum serialized size, so a page
+ * of documents with large blobs does not overflow the client's context window. When the
+ * encoded documents exceed the budget, long strings, arrays, bytes and vectors are replaced
+ * by truncation markers and the page is shortened to the documents that fit.
+ *
+ * A truncation marker keeps the start of the value:
+ * `{ "__type": "truncated", "type": "string", "length": 52000, "preview": "first characters…" }`
+ * Markers are rejected by the codec when written back, so truncated data cannot be stored by accident.
+ *
+ * Environment variables used:
+ * - FIRESTORE_MAX_RESPONSE_SIZE: Default maximum response size in characters (optional, default 100000)
+ *
+ * @module firebase-mcp/firestore-budget
+ */
+
+/** Default maximum size of the serialized documents in a response, in characters */
+export const DEFAULT_MAX_RESPONSE_SIZE = Number(process.env.FIRESTORE_MAX_RESPONSE_SIZE) || 100000;
+
+/** Longest string (or base64 bytes value) kept when values are truncated */
+const MAX_STRING_LENGTH = 1000;
+
+/** Largest array (or vector) kept when values are truncated */
+const MAX_ARRAY_LENGTH = 20;
+
+/**
+ * The documents of a response after fitting them into the size budget.
+ */
+export interface FittedDocuments<T> {
+  documents: T[];
+  /** True if any value was replaced by a truncation marker */
+  truncated: boolean;
+  /** True if documents were dropped from the end of the page */
+  shortened: boolean;
+}
+
+/**
+ * Replaces long strings, arrays, bytes and vectors in an encoded value by truncation markers.
+ *
+ * @param {any} value - The value in typed JSON encoding
+ * @param {Object} state - Records whether anything was truncated
+ * @returns {any} The value with large parts truncated
+ * @private
+ */
+function truncateValue(value: any, state: { truncated: boolean }): any {
+  if (typeof value === 'string') {
+    if (value.length <= MAX_STRING_LENGTH) {
+      return value;
+    }
+    state.truncated = true;
+    return { __type: 'truncated', type: 'string', length: value.length, preview: value.slice(0, MAX_STRING_LENGTH) };
+  }
+  if (Array.isArray(value)) {
+    const elements = value.slice(0, MAX_ARRAY_LENGTH).map(element => truncateValue(element, state));
+    if (value.length <= MAX_ARRAY_LENGTH) {
+      return elements;
+    }
+    state.truncated = true;
+    return { __type: 'truncated', type: 'array', length: value.length, preview: elements };
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  switch (value.__type) {
+    case undefined:
+      return Object.fromEntries(Object.entries(value).map(([key, field]) => [key, truncateValue(field, state)]));
+    case 'map':
+      return { __type: 'map', value: truncateValue(value.value, state) };
+    case 'bytes':
+      if (value.base64.length <= MAX_STRING_LENGTH) {
+        return value;
+      }
+      state.truncated = true;
+      return { __type: 'truncated', type: 'bytes', length: value.base64.length, preview: value.base64.slice(0, MAX_STRING_LENGTH) };
+    case 'vector':
+      if (value.values.length <= MAX_ARRAY_LENGTH) {
+        return value;
+      }
+      state.truncated = true;
+      return { __type: 'truncated', type: 'vector', length: value.values.length, preview: value.values.slice(0, MAX_ARRAY_LENGTH) };
+    default:
+      return value;
+  }
+}
+
+/**
+ * Fits a page of encoded documents into a maximum serialized size.
+ * If the page already fits it is returned unchanged. Otherwise large values in every document
+ * are truncated, and documents are kept from the start of the page while they fit. The first
+ * document is always kept so that paging can make progress.
+ *
+ * @param {Array<Object>} documents - Result entries whose `document` field holds the encoded data
+ * @param {number} [maxSize=DEFAULT_MAX_RESPONSE_SIZE] - Maximum serialized size in characters
+ * @returns {FittedDocuments} The documents to return and whether they were truncated or shortened
+ *
+ * @example
+ * const { documents, shortened } = fitDocuments(page, 20000);
+ * // Continue after documents[documents.length - 1] if shortened
+ */
+export function fitDocuments<T extends { document: any }>(documents: T[], maxSize: number = DEFAULT_MAX_RESPONSE_SIZE): FittedDocuments<T> {
+  if (JSON.stringify(documents).length <= maxSize) {
+    return { documents, truncated: false, shortened: false };
+  }
+
+  // Truncate large values, then keep the documents that fit
+  const fitted: T[] = [];
+  let truncated = false;
+  let size = 2;
+  for (const entry of documents) {
+    const state = { truncated: false };
+    const truncatedEntry = { ...entry, document: truncateValue(entry.document, state) };
+    const entrySize = JSON.stringify(truncatedEntry).length + 1;
+    if (fitted.length > 0 && size + entrySize > maxSize) {
+      break;
+    }
+    fitted.push(truncatedEntry);
+    truncated = truncated || state.truncated;
+    size += entrySize;
+  }
+
+  return { documents: fitted, truncated, shortened: fitted.length < documents.length };
+}
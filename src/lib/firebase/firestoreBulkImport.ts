@@ -0,0 +1,457 @@
+/**
+ * Firestore Bulk Import
+ *
+ * This module loads rows from a local CSV, JSON array or NDJSON file into a collection.
+ * Columns are mapped to fields with type coercion rules, document IDs are taken from a
+ * column or generated, and the documents are written with a BulkWriter. Rows that cannot
+ * be converted or written are reported individually instead of aborting the import.
+ * All functions return data in a format compatible with the MCP protocol response structure.
+ *
+ * @module firebase-mcp/firestore-bulk-import
+ */
+
+import { DocumentReference, Firestore, Timestamp } from 'firebase-admin/firestore';
+import { getFirestore } from './firebaseConfig';
+import type { ProgressCallback } from './firestoreClient';
+import { decodeValue, encodeValue, parseTimestamp } from './firestoreCodec';
+import { normalizeCollectionPath, normalizeDocumentPath } from './firestorePaths';
+import { findInvalidSets, ValidationIssue } from './firestoreValidation';
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * How a source column is converted into a field value.
+ * - `auto`: CSV cells become numbers, booleans or timestamps when they look like one, otherwise strings
+ * - `timestamp`: ISO 8601 strings or epoch milliseconds; date-times without a UTC offset are read as UTC
+ * - `raw`: the value is kept as read; JSON values may use the typed JSON encoding
+ */
+export type ColumnType = 'auto' | 'raw' | 'string' | 'number' | 'integer' | 'boolean' | 'timestamp' | 'reference' | 'json';
+
+/**
+ * Maps a source column to a document field.
+ *
+ * @property {string} column - Column name (CSV header) or key (JSON)
+ * @property {string} [field] - Target field path, dotted for nested fields (defaults to the column name)
+ * @property {ColumnType} [type] - Coercion rule (defaults to 'auto' for CSV and 'raw' for JSON)
+ * @property {string} [referenceCollection] - Collection path for reference values given as bare document IDs
+ */
+export interface ColumnMapping {
+  column: string;
+  field?: string;
+  type?: ColumnType;
+  referenceCollection?: string;
+}
+
+/**
+ * Options for bulkImport.
+ *
+ * @property {string} [format] - 'csv', 'json' or 'ndjson' (defaults to the file extension)
+ * @property {string} [idColumn] - Column holding the document ID; IDs are generated when omitted
+ * @property {Array<ColumnMapping>} [columns] - Columns to import; all columns are imported when omitted
+ * @property {boolean} [merge] - Merge into existing documents instead of replacing them
+ * @property {string} [delimiter] - CSV field delimiter (defaults to ',')
+ */
+export interface BulkImportOptions {
+  format?: 'csv' | 'json' | 'ndjson';
+  idColumn?: string;
+  columns?: ColumnMapping[];
+  merge?: boolean;
+  delimiter?: string;
+}
+
+/** Number of row errors included in the response */
+const MAX_REPORTED_FAILURES = 100;
+
+/** ISO 8601 dates and date-times recognized by the 'auto' rule */
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?$/;
+
+/** ISO 8601 date-times without a UTC offset */
+const UNZONED_DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/;
+
+/** Numbers recognized by the 'auto' rule; leading zeros are kept as strings (e.g. zip codes) */
+const NUMBER_PATTERN = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/;
+
+/**
+ * Parses CSV text as described in RFC 4180: quoted fields may contain delimiters, line
+ * breaks and doubled quotes.
+ *
+ * @param {string} text - The CSV text
+ * @param {string} delimiter - The field delimiter
+ * @returns {Array<Array<string>>} The records, including the header row
+ * @throws {Error} If a quoted field is not closed
+ */
+export function parseCsv(text: string, delimiter: string = ','): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let value = '';
+  let quoted = false;
+  let position = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  while (position < text.length) {
+    const char = text[position];
+    if (quoted) {
+      if (char === '"' && text[position + 1] === '"') {
+        value += '"';
+        position += 2;
+        continue;
+      }
+      if (char === '"') {
+        quoted = false;
+      } else {
+        value += char;
+      }
+      position++;
+      continue;
+    }
+
+    if (char === '"' && value === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(value);
+      value = '';
+    } else if (char === '\n' || char === '\r') {
+      record.push(value);
+      records.push(record);
+      record = [];
+      value = '';
+      if (char === '\r' && text[position + 1] === '\n') {
+        position++;
+      }
+    } else {
+      value += char;
+    }
+    position++;
+  }
+  if (quoted) {
+    throw new Error('Invalid CSV: unterminated quoted field');
+  }
+  if (value !== '' || record.length > 0) {
+    record.push(value);
+    records.push(record);
+  }
+
+  // Skip blank lines
+  return records.filter(fields => fields.length > 1 || fields[0] !== '');
+}
+
+/**
+ * Reads the rows of a CSV, JSON array or NDJSON file as objects keyed by column name.
+ *
+ * @param {string} filePath - The file to read
+ * @param {string} format - 'csv', 'json' or 'ndjson'
+ * @param {string} delimiter - CSV field delimiter
+ * @returns {Array<Object>} The rows, each with its row number and values or a parse error
+ * @throws {Error} If the file as a whole cannot be parsed
+ * @private
+ */
+function readRows(filePath: string, format: string, delimiter: string): Array<{ row: number, values?: Record<string, any>, error?: string }> {
+  const text = fs.readFileSync(filePath, 'utf8');
+
+  if (format === 'csv') {
+    const [header, ...records] = parseCsv(text, delimiter);
+    if (!header) {
+      throw new Error('Invalid CSV: the file has no header row');
+    }
+    return records.map((fields, index) => {
+      if (fields.length !== header.length) {
+        return { row: index + 1, error: `Expected ${header.length} columns, found ${fields.length}` };
+      }
+      return { row: index + 1, values: Object.fromEntries(header.map((column, i) => [column, fields[i]])) };
+    });
+  }
+
+  const toRow = (value: any, row: number) => value && typeof value === 'object' && !Array.isArray(value)
+    ? { row, values: value }
+    : { row, error: 'Expected an object' };
+
+  if (format === 'json') {
+    const values = JSON.parse(text);
+    if (!Array.isArray(values)) {
+      throw new Error('Invalid JSON: expected an array of objects');
+    }
+    return values.map((value, index) => toRow(value, index + 1));
+  }
+
+  return text.split('\n')
+    .map((line, index) => ({ line: line.trim(), row: index + 1 }))
+    .filter(({ line }) => line !== '')
+    .map(({ line, row }) => {
+      try {
+        return toRow(JSON.parse(line), row);
+      } catch (error) {
+        return { row, error: `Invalid JSON: ${(error as Error).message}` };
+      }
+    });
+}
+
+/**
+ * Parses a date or date-time string. ISO 8601 date-times without a UTC offset are read as UTC,
+ * like dates without a time, so the stored timestamp does not depend on the server's timezone.
+ *
+ * @param {string} text - The date string
+ * @returns {Timestamp} The parsed timestamp
+ * @throws {Error} If the string is not a valid date
+ * @private
+ */
+function parseDate(text: string): Timestamp {
+  return parseTimestamp(UNZONED_DATE_TIME_PATTERN.test(text) ? `${text}Z` : text);
+}
+
+/**
+ * Converts a source value according to a column mapping.
+ *
+ * @param {any} value - The value read from the file
+ * @param {ColumnMapping} mapping - The column mapping with its coercion rule
+ * @param {ColumnType} defaultType - The rule to use when the mapping has none
+ * @param {Firestore} firestore - The Firestore instance used to build document references
+ * @returns {any} The field value, or undefined to leave the field out
+ * @throws {Error} If the value cannot be converted
+ */
+export function coerceValue(value: any, mapping: ColumnMapping, defaultType: ColumnType, firestore: Firestore): any {
+  const type = mapping.type || defaultType;
+  if (value === undefined || value === null || value === '') {
+    // Empty CSV cells and missing keys leave the field out; explicit JSON nulls are kept
+    return value === null && (type === 'raw' || type === 'auto') ? null : undefined;
+  }
+  const text = String(value).trim();
+
+  switch (type) {
+    case 'raw':
+      return typeof value === 'object' ? decodeValue(value, firestore, { allowSentinels: true }) : value;
+    case 'auto':
+      if (typeof value !== 'string') {
+        return typeof value === 'object' ? decodeValue(value, firestore, { allowSentinels: true }) : value;
+      }
+      if (NUMBER_PATTERN.test(text)) {
+        return Number(text);
+      }
+      if (text === 'true' || text === 'false') {
+        return text === 'true';
+      }
+      if (ISO_DATE_PATTERN.test(text)) {
+        return parseDate(text);
+      }
+      return value;
+    case 'string':
+      return String(value);
+    case 'number':
+    case 'integer': {
+      const number = typeof value === 'number' ? value : Number(text);
+      if (text === '' || isNaN(number)) {
+        throw new Error(`'${value}' is not a number`);
+      }
+      if (type === 'integer' && !Number.isInteger(number)) {
+        throw new Error(`'${value}' is not an integer`);
+      }
+      return number;
+    }
+    case 'boolean': {
+      const normalized = text.toLowerCase();
+      if (['true', '1', 'yes', 'y'].includes(normalized)) {
+        return true;
+      }
+      if (['false', '0', 'no', 'n'].includes(normalized)) {
+        return false;
+      }
+      throw new Error(`'${value}' is not a boolean`);
+    }
+    case 'timestamp':
+      return typeof value === 'number' ? parseTimestamp(new Date(value).toISOString()) : parseDate(text);
+    case 'reference':
+      if (text.includes('/')) {
+        return firestore.doc(normalizeDocumentPath(text));
+      }
+      if (!mapping.referenceCollection) {
+        throw new Error(`'${value}' is not a document path; set referenceCollection to import bare document IDs`);
+      }
+      return firestore.doc(`${normalizeCollectionPath(mapping.referenceCollection)}/${text}`);
+    case 'json':
+      return decodeValue(typeof value === 'string' ? JSON.parse(value) : value, firestore, { allowSentinels: true });
+    default:
+      throw new Error(`Unknown column type '${type}'`);
+  }
+}
+
+/**
+ * Returns a converted value in typed JSON encoding, for schema validation. Values read in
+ * typed JSON are kept as they are, so write sentinels are validated as the value they write.
+ *
+ * @param {any} value - The value read from the file
+ * @param {ColumnMapping} mapping - The column mapping with its coercion rule
+ * @param {ColumnType} defaultType - The rule to use when the mapping has none
+ * @param {any} converted - The value returned by coerceValue
+ * @returns {any} The value in typed JSON encoding
+ * @private
+ */
+function toTypedJson(value: any, mapping: ColumnMapping, defaultType: ColumnType, converted: any): any {
+  const type = mapping.type || defaultType;
+  if (type === 'json' && typeof value === 'string') {
+    return JSON.parse(value);
+  }
+  if (typeof value === 'object' && value !== null && ['raw', 'auto', 'json'].includes(type)) {
+    return value;
+  }
+  return encodeValue(converted);
+}
+
+/**
+ * Sets a value at a dotted field path, creating nested maps as needed.
+ *
+ * @param {Object} data - The document data
+ * @param {string} fieldPath - The dotted field path
+ * @param {any} value - The value to set
+ * @private
+ */
+function setField(data: Record<string, any>, fieldPath: string, value: any) {
+  const segments = fieldPath.split('.');
+  let target = data;
+  for (const segment of segments.slice(0, -1)) {
+    if (!target[segment] || typeof target[segment] !== 'object') {
+      target[segment] = {};
+    }
+    target = target[segment];
+  }
+  target[segments[segments.length - 1]] = value;
+}
+
+/**
+ * Imports the rows of a local CSV, JSON array or NDJSON file into a collection.
+ * Every row becomes one document. Columns are converted with the type coercion rules of the
+ * column mappings, or imported as they are when no mappings are given. Documents are written
+ * with a BulkWriter; rows that cannot be converted or written, or whose documents do not match
+ * the schemas registered for their paths, are listed in the error report with their row number
+ * (the first row after a CSV header is row 1).
+ *
+ * @param {string} inputPath - The local file to read
+ * @param {string} collection - The collection path to write to
+ * @param {BulkImportOptions} [options={}] - Format, ID column, column mappings and merge behaviour
+ * @param {ProgressCallback} [onProgress] - Called periodically with the number of rows processed
+ * @param {string} [database] - Firestore database ID; defaults to the server's default database
+ * @returns {Promise<Object>} MCP-formatted response with written and failed row counts and the row errors
+ * @throws {Error} If Firebase is not initialized or if the file cannot be read
+ *
+ * @example
+ * // Load a spreadsheet export, using the sku column as document ID
+ * const result = await bulkImport('./products.csv', 'products', {
+ *   idColumn: 'sku',
+ *   columns: [
+ *     { column: 'sku' },
+ *     { column: 'price', type: 'number' },
+ *     { column: 'launched', field: 'dates.launched', type: 'timestamp' },
+ *     { column: 'vendor', type: 'reference', referenceCollection: 'vendors' }
+ *   ]
+ * });
+ */
+export async function bulkImport(inputPath: string, collection: string, options: BulkImportOptions = {}, onProgress?: ProgressCallback, database?: string) {
+  try {
+    // Check if Firebase is initialized
+    const db = getFirestore(database);
+    if (!db) {
+      return { content: [{ type: 'text', text: 'Firebase is not initialized. SERVICE_ACCOUNT_KEY_PATH environment variable is required.' }], isError: true };
+    }
+    const firestore = db;
+
+    // Read the rows
+    const filePath = path.resolve(inputPath);
+    const extension = path.extname(filePath).slice(1).toLowerCase();
+    const format = options.format || (extension === 'jsonl' ? 'ndjson' : extension);
+    if (!['csv', 'json', 'ndjson'].includes(format)) {
+      throw new Error(`Unsupported format '${format}': expected csv, json or ndjson`);
+    }
+    const rows = readRows(filePath, format, options.delimiter || ',');
+    const collectionRef = firestore.collection(normalizeCollectionPath(collection));
+    const defaultType: ColumnType = format === 'csv' ? 'auto' : 'raw';
+
+    // Convert each row, collecting errors per row
+    const failures: Array<{ row: number, id?: string, error: string, invalidFields?: ValidationIssue[] }> = [];
+    let processed = 0;
+    const report = () => {
+      processed++;
+      if (onProgress && (processed % 100 === 0 || processed === rows.length)) {
+        onProgress(processed, rows.length);
+      }
+    };
+
+    const converted: Array<{ row: number, docRef: DocumentReference, data: Record<string, any>, encoded: Record<string, any> }> = [];
+    for (const { row, values, error } of rows) {
+      let id: string | undefined;
+      try {
+        if (error || !values) {
+          throw new Error(error);
+        }
+
+        // Choose the document ID
+        if (options.idColumn) {
+          id = values[options.idColumn] === undefined ? '' : String(values[options.idColumn]).trim();
+          if (!id || id.includes('/')) {
+            throw new Error(`Invalid document ID '${id}' in column '${options.idColumn}'`);
+          }
+        }
+
+        // Convert the mapped columns
+        const mappings: ColumnMapping[] = options.columns || Object.keys(values).map(column => ({ column }));
+        const data: Record<string, any> = {};
+        const encoded: Record<string, any> = {};
+        for (const mapping of mappings) {
+          try {
+            const value = coerceValue(values[mapping.column], mapping, defaultType, firestore);
+            if (value !== undefined) {
+              setField(data, mapping.field || mapping.column, value);
+              setField(encoded, mapping.field || mapping.column, toTypedJson(values[mapping.column], mapping, defaultType, value));
+            }
+          } catch (conversionError) {
+            throw new Error(`Column '${mapping.column}': ${(conversionError as Error).message}`);
+          }
+        }
+
+        converted.push({ row, docRef: id ? collectionRef.doc(id) : collectionRef.doc(), data, encoded });
+      } catch (rowError) {
+        failures.push({ row, ...(id ? { id } : {}), error: (rowError as Error).message });
+        report();
+      }
+    }
+
+    // Skip the rows whose documents do not match their schemas
+    const invalid = await findInvalidSets(firestore, converted.map(({ docRef, encoded }) => ({ path: docRef.path, data: encoded })), !!options.merge);
+
+    // Write the other rows with a BulkWriter, collecting errors per row
+    const bulkWriter = firestore.bulkWriter();
+    const writes: Promise<void>[] = [];
+    for (const [index, { row, docRef, data }] of converted.entries()) {
+      const id = docRef.id;
+      const validationError = invalid.get(index);
+      if (validationError) {
+        failures.push({ row, id, error: validationError.message, invalidFields: validationError.documents[0].errors });
+        report();
+        continue;
+      }
+      writes.push(bulkWriter.set(docRef, data, { merge: !!options.merge })
+        .then(report)
+        .catch((writeError: Error) => {
+          failures.push({ row, id, error: writeError.message });
+          report();
+        }));
+    }
+    await bulkWriter.close();
+    await Promise.all(writes);
+
+    // Format response for MCP, listing the first row errors in row order
+    failures.sort((a, b) => a.row - b.row);
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({
+          file: filePath,
+          collection: collectionRef.path,
+          rows: rows.length,
+          written: rows.length - failures.length,
+          failed: failures.length,
+          failures: failures.slice(0, MAX_REPORTED_FAILURES),
+          ...(failures.length > MAX_REPORTED_FAILURES ? { failuresTruncated: true } : {})
+        })
+      }]
+    };
+  } catch (error) {
+    return { content: [{ type: 'text', text: `Error importing rows: ${(error as Error).message}` }], isError: true };
+  }
+}
@@ -0,0 +1,290 @@
+/**
+ * Firestore Query-Driven Bulk Writes
+ *
+ * This module updates or deletes every document matching a query, in the filter format used by
+ * listDocuments. Runs are dry runs by default, reporting how many documents match and a sample
+ * of them. A run that writes first checks the match count against a cap, reads the matching
+ * documents page by page and then writes them with a BulkWriter, reporting each failed write
+ * instead of aborting. Each write is conditional on the document not having changed since it
+ * was matched, so documents edited in the meantime are reported as failures rather than overwritten.
+ * All exported tool functions return data in a format compatible with the MCP protocol response structure.
+ *
+ * @module firebase-mcp/firestore-bulk-write
+ */
+
+import { BulkWriter, Firestore, Query, QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { getFirestore } from './firebaseConfig';
+import type { ProgressCallback } from './firestoreClient';
+import { decodeDocument, encodeDocument } from './firestoreCodec';
+import { queryErrorContent } from './firestoreIndexes';
+import { applyEffectiveOrderBy, getEffectiveOrderBy, withCursorFields } from './firestorePaging';
+import { normalizeCollectionPath } from './firestorePaths';
+import { applyQueryOptions, FilterSpec } from './firestoreQuery';
+import { checkWrites, hasSchema, SchemaValidationError } from './firestoreValidation';
+
+/** Default cap on the number of documents a single run may write */
+const DEFAULT_MAX_DOCUMENTS = 500;
+
+/** Highest cap a caller may set */
+const MAX_DOCUMENTS = 10000;
+
+/** Number of documents read per page while collecting the matches */
+const PAGE_SIZE = 500;
+
+/** Number of matching documents listed by a dry run */
+const SAMPLE_SIZE = 10;
+
+/** Number of failed writes included in the response */
+const MAX_REPORTED_FAILURES = 100;
+
+/**
+ * Options for updateWhere and deleteWhere.
+ *
+ * @property {boolean} [dryRun=true] - Only report the matching documents; nothing is written
+ * @property {number} [maxDocuments=500] - Refuse to write when more documents match (at most 10000)
+ * @property {boolean} [collectionGroup=false] - Query every collection with this ID across all parents
+ */
+export interface QueryWriteOptions {
+  dryRun?: boolean;
+  maxDocuments?: number;
+  collectionGroup?: boolean;
+}
+
+/**
+ * Builds the query matching the documents to write, ordered so it can be read page by page.
+ *
+ * @param {Firestore} db - The Firestore instance
+ * @param {string} collection - The collection path, or a collection ID for a collection group
+ * @param {Array<FilterSpec>} filters - The query filters
+ * @param {boolean} collectionGroup - Query every collection with this ID
+ * @param {boolean} readData - Read the document data; otherwise only the fields needed for paging are read
+ * @returns {Query} The query
+ * @private
+ */
+function buildMatchQuery(db: Firestore, collection: string, filters: FilterSpec[], collectionGroup: boolean, readData: boolean): Query {
+  if (collectionGroup && (!collection || collection.includes('/'))) {
+    throw new Error(`Invalid collection ID '${collection}': collection group queries take a collection ID without slashes`);
+  }
+  const source = collectionGroup ? db.collectionGroup(collection) : db.collection(normalizeCollectionPath(collection));
+  const effectiveOrderBy = getEffectiveOrderBy(filters, []);
+  const query = applyEffectiveOrderBy(applyQueryOptions(source, filters), [], effectiveOrderBy);
+  return readData ? query : query.select(...withCursorFields([], effectiveOrderBy)!);
+}
+
+/**
+ * Reads every document matching a query, stopping after more than the given number.
+ *
+ * @param {Query} query - The ordered query
+ * @param {number} max - Number of documents after which reading stops
+ * @returns {Promise<Array<QueryDocumentSnapshot>>} Up to max + 1 matching documents
+ * @private
+ */
+async function readMatches(query: Query, max: number): Promise<QueryDocumentSnapshot[]> {
+  const matches: QueryDocumentSnapshot[] = [];
+  let last: QueryDocumentSnapshot | undefined;
+  while (matches.length <= max) {
+    const page = await (last ? query.startAfter(last) : query).limit(PAGE_SIZE).get();
+    matches.push(...page.docs);
+    if (page.size < PAGE_SIZE) {
+      break;
+    }
+    last = page.docs[page.size - 1];
+  }
+  return matches.slice(0, max + 1);
+}
+
+/**
+ * Checks the cap on affected documents and returns it.
+ *
+ * @param {number|undefined} maxDocuments - The requested cap
+ * @returns {number} The cap to apply
+ * @private
+ */
+function resolveCap(maxDocuments: number | undefined): number {
+  const cap = maxDocuments === undefined ? DEFAULT_MAX_DOCUMENTS : maxDocuments;
+  if (!Number.isInteger(cap) || cap < 1 || cap > MAX_DOCUMENTS) {
+    throw new Error(`Invalid maxDocuments ${maxDocuments}: must be an integer between 1 and ${MAX_DOCUMENTS}`);
+  }
+  return cap;
+}
+
+/**
+ * Runs an update or delete over the documents matching a query: reports a dry run, or
+ * enforces the cap and applies the write to each match with a BulkWriter.
+ *
+ * @param {string} action - 'update' or 'delete'
+ * @param {string} collection - The collection path, or a collection ID for a collection group
+ * @param {Array<FilterSpec>} filters - The query filters
+ * @param {QueryWriteOptions} options - Dry run, cap and collection group options
+ * @param {Function} write - Queues the write of one matching document, throwing if it must be skipped
+ * @param {ProgressCallback|undefined} onProgress - Called with the number of documents processed
+ * @param {Firestore} db - The Firestore instance
+ * @returns {Promise<Object>} The dry run or the write report
+ * @private
+ */
+async function writeMatches(
+  action: 'update' | 'delete',
+  collection: string,
+  filters: FilterSpec[],
+  options: QueryWriteOptions,
+  write: (bulkWriter: BulkWriter, doc: QueryDocumentSnapshot) => Promise<unknown>,
+  onProgress: ProgressCallback | undefined,
+  db: Firestore
+) {
+  const cap = resolveCap(options.maxDocuments);
+  const query = buildMatchQuery(db, collection, filters, !!options.collectionGroup, action === 'update');
+
+  // Count the matches without reading them
+  const matched = (await query.count().get()).data().count;
+  if (options.dryRun !== false) {
+    const sample = matched > 0 ? await buildMatchQuery(db, collection, filters, !!options.collectionGroup, false).limit(SAMPLE_SIZE).get() : null;
+    return {
+      dryRun: true,
+      action,
+      matched,
+      maxDocuments: cap,
+      exceedsMaxDocuments: matched > cap,
+      sample: sample ? sample.docs.map(doc => ({ id: doc.id, path: doc.ref.path })) : []
+    };
+  }
+  if (matched > cap) {
+    throw new Error(`${matched} documents match, more than maxDocuments (${cap}); narrow the filters or raise maxDocuments (at most ${MAX_DOCUMENTS})`);
+  }
+
+  // Read the matches first, so documents the writes move within the query order are not visited twice
+  const matches = await readMatches(query, cap);
+  if (matches.length > cap) {
+    throw new Error(`More than maxDocuments (${cap}) documents match; narrow the filters or raise maxDocuments (at most ${MAX_DOCUMENTS})`);
+  }
+
+  // Write each match, collecting failures per document
+  const bulkWriter = db.bulkWriter();
+  const failures: Array<{ path: string, error: string, invalidFields?: any[] }> = [];
+  let processed = 0;
+  const report = () => {
+    processed++;
+    if (onProgress && (processed % 100 === 0 || processed === matches.length)) {
+      onProgress(processed, matches.length);
+    }
+  };
+
+  const writes: Promise<void>[] = [];
+  for (const doc of matches) {
+    try {
+      writes.push(write(bulkWriter, doc)
+        .then(report)
+        .catch((writeError: Error) => {
+          failures.push({ path: doc.ref.path, error: writeError.message });
+          report();
+        }));
+    } catch (error) {
+      failures.push({
+        path: doc.ref.path,
+        error: (error as Error).message,
+        ...(error instanceof SchemaValidationError ? { invalidFields: error.documents[0].errors } : {})
+      });
+      report();
+    }
+  }
+  await bulkWriter.close();
+  await Promise.all(writes);
+
+  // List the first failures in path order
+  failures.sort((a, b) => a.path.localeCompare(b.path));
+  return {
+    dryRun: false,
+    action,
+    matched: matches.length,
+    [action === 'update' ? 'updated' : 'deleted']: matches.length - failures.length,
+    failed: failures.length,
+    failures: failures.slice(0, MAX_REPORTED_FAILURES),
+    ...(failures.length > MAX_REPORTED_FAILURES ? { failuresTruncated: true } : {})
+  };
+}
+
+/**
+ * Applies a partial update to every document matching a query. By default this is a dry run
+ * that reports the number of matching documents and a sample of them; set dryRun to false to
+ * write. Writing is refused when more documents match than maxDocuments. Updated documents are
+ * validated against the schemas registered for their paths, and documents that would not
+ * match are skipped and reported.
+ *
+ * @param {string} collection - The collection path, or a collection ID when collectionGroup is set
+ * @param {Array<FilterSpec>} filters - Filter conditions, in the format used by listDocuments
+ * @param {any} data - The fields to update, with special types and sentinels in typed JSON encoding
+ * @param {QueryWriteOptions} [options={}] - Dry run, cap and collection group options
+ * @param {ProgressCallback} [onProgress] - Called with the number of documents processed
+ * @param {string} [database] - Firestore database ID; defaults to the server's default database
+ * @returns {Promise<Object>} MCP-formatted response with the dry run, or the number of documents updated and the failures
+ * @throws {Error} If Firebase is not initialized or if there's a Firestore error
+ *
+ * @example
+ * // Archive every order created before March
+ * const result = await updateWhere('orders', [
+ *   { field: 'createdAt', operator: '<', value: { __type: 'timestamp', value: '2024-03-01T00:00:00Z' } }
+ * ], { status: 'archived' }, { dryRun: false, maxDocuments: 2000 });
+ */
+export async function updateWhere(collection: string, filters: FilterSpec[], data: any, options: QueryWriteOptions = {}, onProgress?: ProgressCallback, database?: string) {
+  try {
+    // Check if Firebase is initialized
+    const db = getFirestore(database);
+    if (!db) {
+      return { content: [{ type: 'text', text: 'Firebase is not initialized. SERVICE_ACCOUNT_KEY_PATH environment variable is required.' }], isError: true };
+    }
+
+    // Decode the update once and apply it to each match
+    if (!data || typeof data !== 'object' || Array.isArray(data) || Object.keys(data).length === 0) {
+      throw new Error('The update must be an object with at least one field');
+    }
+    const decoded = decodeDocument(data, db);
+    const result = await writeMatches('update', collection, filters, options, (bulkWriter, doc) => {
+      if (hasSchema(doc.ref.path)) {
+        checkWrites([{ type: 'update', path: doc.ref.path, data }], new Map([[doc.ref.path, encodeDocument(doc.data())]]));
+      }
+      return bulkWriter.update(doc.ref, decoded, { lastUpdateTime: doc.updateTime });
+    }, onProgress, db);
+
+    // Format response for MCP
+    return { content: [{ type: 'text', text: JSON.stringify(result) }] };
+  } catch (error) {
+    return { content: queryErrorContent(error, 'updating documents'), isError: true };
+  }
+}
+
+/**
+ * Deletes every document matching a query. By default this is a dry run that reports the
+ * number of matching documents and a sample of them; set dryRun to false to delete. Deleting
+ * is refused when more documents match than maxDocuments. Subcollections of deleted documents
+ * are not deleted.
+ *
+ * @param {string} collection - The collection path, or a collection ID when collectionGroup is set
+ * @param {Array<FilterSpec>} filters - Filter conditions, in the format used by listDocuments
+ * @param {QueryWriteOptions} [options={}] - Dry run, cap and collection group options
+ * @param {ProgressCallback} [onProgress] - Called with the number of documents processed
+ * @param {string} [database] - Firestore database ID; defaults to the server's default database
+ * @returns {Promise<Object>} MCP-formatted response with the dry run, or the number of documents deleted and the failures
+ * @throws {Error} If Firebase is not initialized or if there's a Firestore error
+ *
+ * @example
+ * // See which sessions would be deleted
+ * const preview = await deleteWhere('sessions', [{ field: 'expired', operator: '==', value: true }]);
+ */
+export async function deleteWhere(collection: string, filters: FilterSpec[], options: QueryWriteOptions = {}, onProgress?: ProgressCallback, database?: string) {
+  try {
+    // Check if Firebase is initialized
+    const db = getFirestore(database);
+    if (!db) {
+      return { content: [{ type: 'text', text: 'Firebase is not initialized. SERVICE_ACCOUNT_KEY_PATH environment variable is required.' }], isError: true };
+    }
+
+    // Delete each match
+    const result = await writeMatches('delete', collection, filters, options, (bulkWriter, doc) => {
+      return bulkWriter.delete(doc.ref, { lastUpdateTime: doc.updateTime });
+    }, onProgress, db);
+
+    // Format response for MCP
+    return { content: [{ type: 'text', text: JSON.stringify(result) }] };
+  } catch (error) {
+    return { content: queryErrorContent(error, 'deleting documents'), isError: true };
+  }
+}
@@ -8,18 +8,109 @@
  * @module firebase-mcp/firestore
  */
 
-import { Query, Timestamp } from 'firebase-admin/firestore';
-import {db, getProjectId} from './firebaseConfig';
+import { CollectionReference, DocumentReference, DocumentSnapshot, Firestore, Query, Timestamp, Transaction } from 'firebase-admin/firestore';
+import { getFirestore } from './firebaseConfig';
+import { DEFAULT_MAX_RESPONSE_SIZE, fitDocuments } from './firestoreBudget';
+import { decodeDocument, encodeDocument, formatTimestamp, parseTimestamp } from './firestoreCodec';
+import { diffDocuments } from './firestoreDiff';
+import { formatExplainMetrics } from './firestoreExplain';
+import { queryErrorContent } from './firestoreIndexes';
+import {
+  applyEffectiveOrderBy,
+  decodeCursorValues,
+  decodePageToken,
+  encodePageToken,
+  getCursorValues,
+  getEffectiveOrderBy,
+  projectFields,
+  queryFingerprint,
+  withCursorFields
+} from './firestorePaging';
+import { getConsoleUrl, normalizeCollectionPath, normalizeDocumentPath, resolveDocumentPath, splitPath } from './firestorePaths';
+import { AggregationSpec, applyCursorBounds, applyQueryOptions, buildAggregateSpec, FilterSpec, QueryOptions } from './firestoreQuery';
+import { applyWrite, checkWrites, DocumentWrite, findInvalidSets, hasSchema, ValidationIssue, writeErrorContent } from './firestoreValidation';
+import { randomBytes } from 'crypto';
+import { once } from 'events';
 import fs from 'fs';
 import path from 'path';
+import readline from 'readline';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+
+/**
+ * Parses the time of a point-in-time read.
+ * 
+ * @param {string} [readTime] - An RFC 3339 timestamp, e.g. '2024-05-01T09:30:00Z'
+ * @returns {Timestamp|undefined} The read time, or undefined to read the current data
+ * @throws {Error} If the timestamp is invalid or in the future
+ * @private
+ */
+function parseReadTime(readTime?: string): Timestamp | undefined {
+  if (readTime === undefined) {
+    return undefined;
+  }
+  const timestamp = parseTimestamp(readTime);
+  if (timestamp.toMillis() > Date.now()) {
+    throw new Error(`Invalid readTime '${readTime}': must not be in the future`);
+  }
+  return timestamp;
+}
+
+/**
+ * Runs reads at a past time in a read-only transaction, or reads the current data without one.
+ * 
+ * @param {Firestore} firestore - The Firestore instance
+ * @param {Timestamp|undefined} readTime - The time to read at; omit to read the current data
+ * @param {Function} read - Performs the reads, through the transaction when one is given
+ * @returns {Promise<T>} The result of the reads
+ * @private
+ */
+function readAt<T>(firestore: Firestore, readTime: Timestamp | undefined, read: (transaction?: Transaction) => Promise<T>): Promise<T> {
+  return readTime ? firestore.runTransaction(transaction => read(transaction), { readOnly: true, readTime }) : read();
+}
+
+/**
+ * Lists the IDs of the collections under a document, or at the root, as they were at a past time.
+ * listCollections() has no read time option, so the ListCollectionIds request is sent
+ * through the client's request method with the read time set.
+ * 
+ * This relies on non-public members of the Firestore class as of @google-cloud/firestore 7.11
+ * (firebase-admin 13.2). They are checked first, so an SDK version without them fails with a
+ * clear error instead of an unrelated one.
+ * 
+ * @param {Firestore} firestore - The Firestore instance
+ * @param {string} parentPath - The parent document path, or '' for root collections
+ * @param {Timestamp} readTime - The time to read at
+ * @returns {Promise<Array<string>>} The collection IDs
+ * @throws {Error} If the Firestore SDK does not support listing collections at a read time
+ * @private
+ */
+async function listCollectionIdsAt(firestore: Firestore, parentPath: string, readTime: Timestamp): Promise<string[]> {
+  const client = firestore as unknown as {
+    formattedName?: unknown;
+    initializeIfNeeded?: (requestTag: string) => Promise<void>;
+    request?: (methodName: string, request: object, requestTag: string) => Promise<string[]>;
+  };
+  if (typeof client.formattedName !== 'string' || typeof client.initializeIfNeeded !== 'function' || typeof client.request !== 'function') {
+    throw new Error('Listing collections at a readTime is not supported by the installed Firestore SDK; omit readTime to list the current collections');
+  }
+  const requestTag = randomBytes(5).toString('hex');
+  await client.initializeIfNeeded(requestTag);
+  return client.request('listCollectionIds', {
+    parent: `${client.formattedName}/documents${parentPath ? `/${parentPath}` : ''}`,
+    readTime: { seconds: readTime.seconds, nanos: readTime.nanoseconds }
+  }, requestTag);
+}
 
 /**
  * Lists collections in Firestore, either at the root level or under a specific document.
  * Results are paginated and include links to the Firebase console.
  * 
- * @param {string} [documentPath] - Optional path to a document to list subcollections
+ * @param {string} [documentPath] - Optional full path to a document to list subcollections (e.g. 'users/u1/orders/o9')
  * @param {number} [limit=20] - Maximum number of collections to return
- * @param {string} [pageToken] - Token for pagination (collection ID to start after)
+ * @param {string} [pageToken] - Token for pagination, as returned in nextPageToken
+ * @param {string} [readTime] - List the collections as they were at this RFC 3339 time, within the point-in-time recovery window
+ * @param {string} [database] - Firestore database ID; defaults to the server's default database
  * @returns {Promise<Object>} MCP-formatted response with collection data
  * @throws {Error} If Firebase is not initialized or if there's a Firestore error
  * 
@@ -31,37 +122,46 @@ import path from 'path';
  * // List subcollections of a document
  * const subCollections = await list_collections('users/user123');
  */
-export async function list_collections(documentPath?: string, limit: number = 20, pageToken?: string) {
+export async function list_collections(documentPath?: string, limit: number = 20, pageToken?: string, readTime?: string, database?: string) {
   try {
     // Check if Firebase is initialized
+    const db = getFirestore(database);
     if (!db) {
       return { content: [{ type: 'text', text: 'Firebase is not initialized. SERVICE_ACCOUNT_KEY_PATH environment variable is required.' }], isError: true };
     }
     
     let collections;
-    if (documentPath) {
+    const parentPath = documentPath ? normalizeDocumentPath(documentPath) : '';
+    const at = parseReadTime(readTime);
+    if (at) {
+      // Get the collections that existed at the read time
+      const ids = await listCollectionIdsAt(db, parentPath, at);
+      collections = ids.map(collectionId => parentPath ? db.doc(parentPath).collection(collectionId) : db.collection(collectionId));
+    } else if (parentPath) {
       // Get subcollections of a specific document
-      const docRef = db.doc(documentPath);
-      collections = await docRef.listCollections();
+      collections = await db.doc(parentPath).listCollections();
     } else {
       // Get root collections
       collections = await db.listCollections();
     }
     
-    // Sort collections by name for consistent ordering
-    collections.sort((a, b) => a.id.localeCompare(b.id));
+    // Sort collections by ID in the same code point order Firestore uses
+    collections.sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
     
-    // Find start index for pagination
-    const startIndex = pageToken ? collections.findIndex(c => c.id === pageToken) + 1 : 0;
+    // Continue after the last collection ID of the previous page, even if it no longer exists
+    const fingerprint = queryFingerprint(`collections:${parentPath}${at ? `@${formatTimestamp(at)}` : ''}`);
+    if (pageToken) {
+      const [lastId] = decodePageToken(pageToken, fingerprint);
+      collections = collections.filter(c => c.id > lastId);
+    }
     
     // Apply limit for pagination
-    const paginatedCollections = collections.slice(startIndex, startIndex + limit);
+    const paginatedCollections = collections.slice(0, limit);
+    const hasMore = collections.length > limit;
     
-    // Get project ID for console URLs
-    const projectId = getProjectId();
+    // Build console URLs from the full collection paths
     const collectionData = paginatedCollections.map((collection) => {
-      const collectionUrl = `https://console.firebase.google.com/project/${projectId}/firestore/data/${documentPath}/${collection.id}`;
-      return { name: collection.id, url: collectionUrl };
+      return { name: collection.id, path: collection.path, url: getConsoleUrl(collection.path, db.databaseId) };
     });
     
     // Format response for MCP
@@ -70,9 +170,9 @@ export async function list_collections(documentPath?: string, limit: number = 20
         type: 'text', 
         text: JSON.stringify({
           collections: collectionData,
-          nextPageToken: collections.length > startIndex + limit ? 
-            paginatedCollections[paginatedCollections.length - 1].id : null,
-          hasMore: collections.length > startIndex + limit
+          nextPageToken: hasMore ? encodePageToken(fingerprint, [paginatedCollections[paginatedCollections.length - 1].id]) : null,
+          hasMore,
+          ...(at ? { readTime: formatTimestamp(at) } : {})
         })
       }]
     };
@@ -82,30 +182,93 @@ export async function list_collections(documentPath?: string, limit: number = 20
 }
 
 /**
- * Converts Firestore Timestamp objects to ISO string format for JSON serialization.
- * This is a helper function used internally by other functions.
- * 
- * @param {any} data - The data object containing potential Timestamp fields
- * @returns {any} The same data object with Timestamps converted to ISO strings
+ * Reads one page of a query and formats it for the list tools. The query ordering is made
+ * explicit so the page token can record the cursor values of the last returned document.
+ * One document more than the limit is read to tell whether another page exists.
+ *
+ * @param {Query} source - The collection or collection group to query
+ * @param {string} target - Identifies the source in the query fingerprint
+ * @param {Array<FilterSpec>} filters - The query filters
+ * @param {number} limit - Maximum number of documents to return
+ * @param {string|undefined} pageToken - Token returned by the previous page
+ * @param {QueryOptions} options - Ordering, cursor bounds and field mask
+ * @param {number} maxResponseSize - Maximum size of the serialized documents in characters
+ * @param {boolean} explain - Run the page query with query explain and include how it was executed
+ * @param {Timestamp|undefined} readTime - Read the documents as they were at this time
+ * @returns {Promise<Object|null>} The page, or null if no documents match and the query is not explained
  * @private
  */
-function convertTimestampsToISO(data: any) {
-  for (const key in data) {
-    if (data[key] instanceof Timestamp) {
-      data[key] = data[key].toDate().toISOString();
-    }
+async function readPage(source: Query, target: string, filters: FilterSpec[], limit: number, pageToken: string | undefined, options: QueryOptions, maxResponseSize: number, explain: boolean, readTime?: Timestamp) {
+  if (explain && readTime) {
+    throw new Error('explain cannot be combined with readTime');
   }
-  return data;
+  
+  // Apply filters and the full ordering, then the cursor bounds, which Firestore only accepts
+  // once the query is fully ordered; ordered fields left out of the field mask are read as
+  // well so their cursor values are known
+  const explicitOrderBy = options.orderBy || [];
+  const effectiveOrderBy = getEffectiveOrderBy(filters, explicitOrderBy);
+  const { startAt, endBefore, ...orderingOptions } = options;
+  const query = applyCursorBounds(applyEffectiveOrderBy(
+    applyQueryOptions(source, filters, { ...orderingOptions, select: withCursorFields(options.select, effectiveOrderBy) }),
+    explicitOrderBy,
+    effectiveOrderBy
+  ), options);
+  
+  // Continue after the cursor of the previous page; tokens are bound to the read time
+  const fingerprint = queryFingerprint(readTime ? `${target}@${formatTimestamp(readTime)}` : target, filters, options);
+  const pagedQuery = pageToken
+    ? query.startAfter(...decodeCursorValues(decodePageToken(pageToken, fingerprint), source.firestore))
+    : query;
+  
+  // Get total count of documents matching the query without downloading them, then the page
+  const countQuery = query.count();
+  const pageQuery = pagedQuery.limit(limit + 1);
+  const [countSnapshot, pageSnapshot] = await readAt(source.firestore, readTime, transaction => transaction
+    ? Promise.all([transaction.get(countQuery), transaction.get(pageQuery)])
+    : Promise.all([countQuery.get(), explain ? null : pageQuery.get()]));
+  const totalCount = countSnapshot.data().count;
+  const explained = explain ? await pageQuery.explain({ analyze: true }) : undefined;
+  const snapshot = explained ? explained.snapshot! : pageSnapshot!;
+  
+  // Handle empty results
+  if (snapshot.empty && !explained) {
+    return null;
+  }
+  
+  // Process document data, keeping the page within the response size budget
+  const docs = snapshot.docs.slice(0, limit);
+  const { documents, truncated, shortened } = fitDocuments(docs.map((doc) => {
+    const data = encodeDocument(options.select ? projectFields(doc.data(), options.select) : doc.data());
+    return { id: doc.id, path: doc.ref.path, url: getConsoleUrl(doc.ref.path, source.firestore.databaseId), document: data };
+  }), maxResponseSize);
+  const hasMore = shortened || snapshot.size > limit;
+  
+  return {
+    totalCount,
+    documents,
+    pageToken: hasMore ? encodePageToken(fingerprint, getCursorValues(docs[documents.length - 1], effectiveOrderBy)) : null,
+    hasMore,
+    ...(truncated ? { truncated } : {}),
+    ...(explained ? { explain: formatExplainMetrics(explained.metrics) } : {}),
+    ...(readTime ? { readTime: formatTimestamp(readTime) } : {})
+  };
 }
 
 /**
  * Lists documents in a Firestore collection with optional filtering and pagination.
  * Results include document data, IDs, and links to the Firebase console.
  * 
- * @param {string} collection - The collection path to query
- * @param {Array<Object>} [filters=[]] - Array of filter conditions with field, operator, and value
+ * @param {string} collection - The collection path to query (e.g. 'users' or 'users/u1/orders')
+ * @param {Array<Object>} [filters=[]] - Array of filter conditions (field, operator, value) or nested and/or groups
  * @param {number} [limit=20] - Maximum number of documents to return
- * @param {string} [pageToken] - Token for pagination (document ID to start after)
+ * @param {string} [pageToken] - Token for pagination, as returned by the previous page with the same filters and ordering
+ * @param {QueryOptions} [options={}] - Ordering (orderBy), cursor bounds (startAt, endBefore) and field mask (select)
+ * @param {number} [maxResponseSize] - Maximum size of the serialized documents in characters; larger pages
+ *   have long values truncated and are shortened, with a page token to continue
+ * @param {boolean} [explain=false] - Also return the indexes used, documents scanned, reads billed and execution time of the page query
+ * @param {string} [readTime] - Read the documents as they were at this RFC 3339 time, within the point-in-time recovery window
+ * @param {string} [database] - Firestore database ID; defaults to the server's default database
  * @returns {Promise<Object>} MCP-formatted response with document data
  * @throws {Error} If Firebase is not initialized or if there's a Firestore error
  * 
@@ -119,79 +282,273 @@ function convertTimestampsToISO(data: any) {
  *   { field: 'age', operator: '>=', value: 21 },
  *   { field: 'status', operator: '==', value: 'active' }
  * ]);
+ * 
+ * @example
+ * // Latest 10 orders where status is pending or failed
+ * const latestOrders = await listDocuments('orders', [
+ *   { or: [
+ *     { field: 'status', operator: '==', value: 'pending' },
+ *     { field: 'status', operator: '==', value: 'failed' }
+ *   ]}
+ * ], 10, undefined, { orderBy: [{ field: 'createdAt', direction: 'desc' }] });
  */
-export async function listDocuments(collection: string, filters: Array<{ field: string, operator: FirebaseFirestore.WhereFilterOp, value: any }> = [], limit: number = 20, pageToken?: string) {
-  const projectId = getProjectId();
+export async function listDocuments(collection: string, filters: FilterSpec[] = [], limit: number = 20, pageToken?: string, options: QueryOptions = {}, maxResponseSize: number = DEFAULT_MAX_RESPONSE_SIZE, explain: boolean = false, readTime?: string, database?: string) {
   try {
     // Check if Firebase is initialized
+    const db = getFirestore(database);
     if (!db) {
       return { content: [{ type: 'text', text: 'Firebase is not initialized. SERVICE_ACCOUNT_KEY_PATH environment variable is required.' }], isError: true };
     }
     
-    // Get reference to the collection
-    const collectionRef = db.collection(collection);
-    let filteredQuery: Query = collectionRef;
+    // Read the page from the collection
+    const collectionPath = normalizeCollectionPath(collection);
+    const page = await readPage(db.collection(collectionPath), collectionPath, filters, limit, pageToken, options, maxResponseSize, explain, parseReadTime(readTime));
     
-    // Apply filters
-    for (const filter of filters) {
-      let filterValue = filter.value;
-      // Convert string dates to Firestore Timestamps
-      if (typeof filterValue === 'string' && !isNaN(Date.parse(filterValue))) {
-        filterValue = Timestamp.fromDate(new Date(filterValue));
-      }
-      filteredQuery = filteredQuery.where(filter.field, filter.operator, filterValue);
+    // Handle empty results
+    if (!page) {
+      return { content: [{ type: 'text', text: 'No matching documents found' }], isError: true };
     }
     
-    // Apply pagination if a page token is provided
-    if (pageToken) {
-      const startAfterDoc = await collectionRef.doc(pageToken).get();
-      filteredQuery = filteredQuery.startAfter(startAfterDoc);
+    // Format response for MCP
+    return { content: [{ type: 'text', text: JSON.stringify(page) }] };
+  } catch (error) {
+    return { content: queryErrorContent(error, 'listing documents'), isError: true };
+  }
+}
+
+/**
+ * Queries every collection with the given ID across all parents (a collection group query),
+ * e.g. all `comments` subcollections at once. Supports the same filtering, ordering and
+ * pagination as listDocuments. Results include each document's full path and console link.
+ * 
+ * @param {string} collectionId - The collection ID shared by the collections to query (no slashes)
+ * @param {Array<Object>} [filters=[]] - Array of filter conditions (field, operator, value) or nested and/or groups
+ * @param {number} [limit=20] - Maximum number of documents to return
+ * @param {string} [pageToken] - Token for pagination, as returned by the previous page with the same filters and ordering
+ * @param {QueryOptions} [options={}] - Ordering (orderBy), cursor bounds (startAt, endBefore) and field mask (select)
+ * @param {number} [maxResponseSize] - Maximum size of the serialized documents in characters
+ * @param {boolean} [explain=false] - Also return how the page query was executed, as in listDocuments
+ * @param {string} [database] - Firestore database ID; defaults to the server's default database
+ * @returns {Promise<Object>} MCP-formatted response with document data
+ * @throws {Error} If Firebase is not initialized or if there's a Firestore error
+ * 
+ * @example
+ * // Find flagged comments on any post
+ * const flagged = await queryCollectionGroup('comments', [
+ *   { field: 'flagged', operator: '==', value: true }
+ * ]);
+ */
+export async function queryCollectionGroup(collectionId: string, filters: FilterSpec[] = [], limit: number = 20, pageToken?: string, options: QueryOptions = {}, maxResponseSize: number = DEFAULT_MAX_RESPONSE_SIZE, explain: boolean = false, database?: string) {
+  try {
+    // Check if Firebase is initialized
+    const db = getFirestore(database);
+    if (!db) {
+      return { content: [{ type: 'text', text: 'Firebase is not initialized. SERVICE_ACCOUNT_KEY_PATH environment variable is required.' }], isError: true };
+    }
+    
+    // Collection groups are identified by a collection ID, not a path
+    if (!collectionId || collectionId.includes('/')) {
+      return { content: [{ type: 'text', text: `Invalid collection ID '${collectionId}': collection group queries take a collection ID without slashes` }], isError: true };
+    }
+    
+    // Read the page from the collection group; the cursor includes the full document path
+    // because document IDs are not unique across a collection group
+    const page = await readPage(db.collectionGroup(collectionId), `group:${collectionId}`, filters, limit, pageToken, options, maxResponseSize, explain);
+    
+    // Handle empty results
+    if (!page) {
+      return { content: [{ type: 'text', text: 'No matching documents found' }], isError: true };
     }
+    
+    // Format response for MCP
+    return { content: [{ type: 'text', text: JSON.stringify(page) }] };
+  } catch (error) {
+    return { content: queryErrorContent(error, 'querying collection group'), isError: true };
+  }
+}
 
-    // Get total count of documents matching the filter
-    const countSnapshot = await filteredQuery.get();
-    const totalCount = countSnapshot.size;
+/**
+ * Computes aggregations (count, sum, average) over the documents in a Firestore collection
+ * using server-side aggregate queries, without downloading the documents.
+ * When groups are provided, the aggregations are computed separately for each group's
+ * filters, combined with AND with the shared filters.
+ * 
+ * @param {string} collection - The collection path to query
+ * @param {Array<AggregationSpec>} [aggregations=[]] - Aggregations to compute (defaults to a count)
+ * @param {Array<Object>} [filters=[]] - Filter conditions applied to every group
+ * @param {Array<Object>} [groups] - Named filter sets to aggregate separately
+ * @param {string} [database] - Firestore database ID; defaults to the server's default database
+ * @returns {Promise<Object>} MCP-formatted response with the aggregation results
+ * @throws {Error} If Firebase is not initialized or if there's a Firestore error
+ * 
+ * @example
+ * // Count orders and average their totals
+ * const stats = await aggregateDocuments('orders', [
+ *   { type: 'count' },
+ *   { type: 'average', field: 'total' }
+ * ]);
+ * 
+ * @example
+ * // Count orders per status in one call
+ * const perStatus = await aggregateDocuments('orders', [{ type: 'count' }], [], [
+ *   { name: 'pending', filters: [{ field: 'status', operator: '==', value: 'pending' }] },
+ *   { name: 'failed', filters: [{ field: 'status', operator: '==', value: 'failed' }] }
+ * ]);
+ */
+export async function aggregateDocuments(collection: string, aggregations: AggregationSpec[] = [], filters: FilterSpec[] = [], groups?: Array<{ name?: string, filters?: FilterSpec[] }>, database?: string) {
+  try {
+    // Check if Firebase is initialized
+    const db = getFirestore(database);
+    if (!db) {
+      return { content: [{ type: 'text', text: 'Firebase is not initialized. SERVICE_ACCOUNT_KEY_PATH environment variable is required.' }], isError: true };
+    }
+    
+    const collectionRef = db.collection(normalizeCollectionPath(collection));
+    const aggregateSpec = buildAggregateSpec(aggregations);
+    
+    // Without groups, aggregate over the shared filters only
+    if (!groups || groups.length === 0) {
+      const snapshot = await applyQueryOptions(collectionRef, filters).aggregate(aggregateSpec).get();
+      return { content: [{ type: 'text', text: JSON.stringify({ results: snapshot.data() }) }] };
+    }
+    
+    // Run one aggregate query per group in parallel
+    const groupResults = await Promise.all(groups.map(async (group, index) => {
+      const query = applyQueryOptions(collectionRef, [...filters, ...(group.filters || [])]);
+      const snapshot = await query.aggregate(aggregateSpec).get();
+      return { name: group.name || `group_${index}`, results: snapshot.data() };
+    }));
+    
+    // Format response for MCP
+    return { content: [{ type: 'text', text: JSON.stringify({ groups: groupResults }) }] };
+  } catch (error) {
+    return { content: queryErrorContent(error, 'aggregating documents'), isError: true };
+  }
+}
+
+/**
+ * Options controlling a vector similarity search.
+ */
+export interface FindNearestOptions {
+  /** How the distance between vectors is measured (default 'cosine') */
+  distanceMeasure?: 'cosine' | 'euclidean' | 'dot_product';
+  /** Maximum number of documents to return, at most 1000 (default 10) */
+  limit?: number;
+  /** Filters the documents must match before they are ranked, combined with AND */
+  filters?: FilterSpec[];
+  /** Only return documents within this distance (for dot_product: with at least this similarity) */
+  distanceThreshold?: number;
+  /** Return the vector field of each document (default false, as embeddings are large) */
+  includeVector?: boolean;
+}
 
-    // Get the documents with limit applied
-    const limitedQuery = filteredQuery.limit(limit);
-    const snapshot = await limitedQuery.get();
+/** Field the computed distance is returned in by vector queries; removed from the returned data */
+const DISTANCE_RESULT_FIELD = '__distance';
 
-    // Handle empty results
-    if (snapshot.empty) {
-      return { content: [{ type: 'text', text: 'No matching documents found' }], isError: true };
+/**
+ * Returns a copy of document data without the value at a dotted field path.
+ * 
+ * @param {FirebaseFirestore.DocumentData} data - The document data
+ * @param {string} fieldPath - Dotted field path to leave out
+ * @returns {FirebaseFirestore.DocumentData} The data without the field
+ * @private
+ */
+function omitFieldPath(data: FirebaseFirestore.DocumentData, fieldPath: string): FirebaseFirestore.DocumentData {
+  const [first, ...rest] = fieldPath.split('.');
+  if (!(first in data)) {
+    return data;
+  }
+  const { [first]: value, ...others } = data;
+  if (rest.length === 0) {
+    return others;
+  }
+  if (value === null || typeof value !== 'object' || Object.getPrototypeOf(value) !== Object.prototype) {
+    return data;
+  }
+  return { ...others, [first]: omitFieldPath(value, rest.join('.')) };
+}
+
+/**
+ * Finds the documents of a collection whose vector field is nearest to a query vector, using a
+ * Firestore vector query. The documents are returned nearest first together with their distance.
+ * A vector index on the field is required; if it is missing the error includes the index to create.
+ * 
+ * @param {string} collection - The collection path to search
+ * @param {string} vectorField - Field path of the stored embeddings
+ * @param {Array<number>|Object} queryVector - The query vector, as an array of numbers or a typed vector value
+ * @param {FindNearestOptions} [options={}] - Distance measure, limit, pre-filters and threshold
+ * @param {number} [maxResponseSize] - Maximum size of the serialized documents in characters
+ * @param {string} [database] - Firestore database ID; defaults to the server's default database
+ * @returns {Promise<Object>} MCP-formatted response with the nearest documents and their distances
+ * @throws {Error} If Firebase is not initialized or if there's a Firestore error
+ * 
+ * @example
+ * // The 5 published articles most similar to an embedding
+ * const similar = await findNearestDocuments('articles', 'embedding', [0.12, -0.4, 0.33], {
+ *   limit: 5,
+ *   filters: [{ field: 'status', operator: '==', value: 'published' }]
+ * });
+ */
+export async function findNearestDocuments(collection: string, vectorField: string, queryVector: number[] | { __type: 'vector', values: number[] }, options: FindNearestOptions = {}, maxResponseSize: number = DEFAULT_MAX_RESPONSE_SIZE, database?: string) {
+  try {
+    // Check if Firebase is initialized
+    const db = getFirestore(database);
+    if (!db) {
+      return { content: [{ type: 'text', text: 'Firebase is not initialized. SERVICE_ACCOUNT_KEY_PATH environment variable is required.' }], isError: true };
+    }
+    
+    // Validate the query vector and options
+    const { distanceMeasure = 'cosine', limit = 10, filters = [], distanceThreshold, includeVector = false } = options;
+    const values = Array.isArray(queryVector) ? queryVector : queryVector?.values;
+    if (!Array.isArray(values) || values.length === 0 || values.some(value => typeof value !== 'number' || !Number.isFinite(value))) {
+      throw new Error('queryVector must be a non-empty array of finite numbers');
+    }
+    if (!['cosine', 'euclidean', 'dot_product'].includes(distanceMeasure)) {
+      throw new Error(`Invalid distanceMeasure '${distanceMeasure}': expected 'cosine', 'euclidean' or 'dot_product'`);
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > 1000) {
+      throw new Error('limit must be an integer between 1 and 1000');
     }
     
-    // Process document data
-    const documents = snapshot.docs.map((doc: any) => {
-      const data = doc.data();
-      convertTimestampsToISO(data);
-      const consoleUrl = `https://console.firebase.google.com/project/${projectId}/firestore/data/${collection}/${doc.id}`;
-      return { id: doc.id, url: consoleUrl, document: data };
+    // Pre-filter the collection, then rank the remaining documents by distance
+    const vectorQuery = applyQueryOptions(db.collection(normalizeCollectionPath(collection)), filters).findNearest({
+      vectorField,
+      queryVector: values,
+      limit,
+      distanceMeasure: distanceMeasure.toUpperCase() as 'COSINE' | 'EUCLIDEAN' | 'DOT_PRODUCT',
+      distanceResultField: DISTANCE_RESULT_FIELD,
+      ...(distanceThreshold !== undefined ? { distanceThreshold } : {})
+    });
+    const snapshot = await vectorQuery.get();
+    
+    // Return the distance next to each document rather than inside its data
+    const results = snapshot.docs.map(doc => {
+      const { [DISTANCE_RESULT_FIELD]: distance, ...data } = doc.data();
+      const document = encodeDocument(includeVector ? data : omitFieldPath(data, vectorField));
+      return { id: doc.id, path: doc.ref.path, url: getConsoleUrl(doc.ref.path, db.databaseId), distance, document };
     });
+    const { documents, truncated, shortened } = fitDocuments(results, maxResponseSize);
     
     // Format response for MCP
-    return { 
-      content: [{
-        type: 'text', 
-        text: JSON.stringify({
-          totalCount,
-          documents,
-          pageToken: documents.length > 0 ? documents[documents.length - 1].id : null,
-          hasMore: totalCount > limit
-        })
-      }]
-    };
+    return { content: [{ type: 'text', text: JSON.stringify({
+      distanceMeasure,
+      documents,
+      ...(truncated ? { truncated } : {}),
+      ...(shortened ? { shortened } : {})
+    }) }] };
   } catch (error) {
-    return { content: [{ type: 'text', text: `Error listing documents: ${(error as Error).message}` }], isError: true };
+    return { content: queryErrorContent(error, 'finding nearest documents'), isError: true };
   }
 }
 
 /**
  * Adds a new document to a Firestore collection with auto-generated ID.
  * 
- * @param {string} collection - The collection path to add the document to
- * @param {any} data - The document data to add
- * @returns {Promise<Object>} MCP-formatted response with the new document ID and data
+ * @param {string} collection - The collection path to add the document to (e.g. 'users' or 'users/u1/orders')
+ * @param {any} data - The document data to add, with special types in typed JSON encoding
+ * @param {string} [database] - Firestore database ID; defaults to the server's default database
+ * @returns {Promise<Object>} MCP-formatted response with the new document ID and data, or the
+ *   field-level errors if the document does not match the schema registered for its path
  * @throws {Error} If Firebase is not initialized or if there's a Firestore error
  * 
  * @example
@@ -199,144 +556,775 @@ export async function listDocuments(collection: string, filters: Array<{ field:
  * const result = await addDocument('users', { 
  *   name: 'John Doe', 
  *   email: 'john@example.com',
- *   createdAt: new Date()
+ *   createdAt: { __type: 'serverTimestamp' }
  * });
  */
-export async function addDocument(collection: string, data: any) {
+export async function addDocument(collection: string, data: any, database?: string) {
   try {
     // Check if Firebase is initialized
+    const db = getFirestore(database);
     if (!db) {
       return { content: [{ type: 'text', text: 'Firebase is not initialized. SERVICE_ACCOUNT_KEY_PATH environment variable is required.' }], isError: true };
     }
     
-    // Add the document and get its reference
-    const docRef = await db.collection(collection).add(data);
-    const projectId = getProjectId();
-    
-    // Convert timestamps for JSON serialization
-    convertTimestampsToISO(data);
-    
-    // Generate console URL for the new document
-    const consoleUrl = `https://console.firebase.google.com/project/${projectId}/firestore/data/${collection}/${docRef.id}`;
+    // Validate the new document against the schemas registered for its path, then create it
+    const docRef = db.collection(normalizeCollectionPath(collection)).doc();
+    const decoded = decodeDocument(data, db);
+    checkWrites([{ type: 'create', path: docRef.path, data }]);
+    await docRef.create(decoded);
     
     // Format response for MCP
-    return { content: [{ type: 'text', text: JSON.stringify({ id: docRef.id, url: consoleUrl, document: data }) }] };
+    return { content: [{ type: 'text', text: JSON.stringify({ id: docRef.id, path: docRef.path, url: getConsoleUrl(docRef.path, db.databaseId), document: data }) }] };
   } catch (error) {
-    return { content: [{ type: 'text', text: `Error adding document: ${(error as Error).message}` }], isError: true };
+    return { content: writeErrorContent(error, 'adding document'), isError: true };
   }
 }
 
 /**
- * Retrieves a specific document from a Firestore collection by ID.
+ * Retrieves a specific document from Firestore by collection and ID, or by its full path.
  * 
- * @param {string} collection - The collection path containing the document
- * @param {string} id - The document ID to retrieve
- * @returns {Promise<Object>} MCP-formatted response with the document data
+ * @param {string} collection - The collection path containing the document, or the full document path when id is omitted
+ * @param {string} [id] - The document ID to retrieve
+ * @param {Array<string>} [select] - Field paths to return (dotted for nested fields); other fields are omitted
+ * @param {number} [maxResponseSize] - Maximum size of the serialized document in characters; long values beyond it are truncated
+ * @param {string} [readTime] - Read the document as it was at this RFC 3339 time, within the point-in-time recovery window
+ * @param {string} [database] - Firestore database ID; defaults to the server's default database
+ * @returns {Promise<Object>} MCP-formatted response with the document data and its createTime and updateTime
  * @throws {Error} If Firebase is not initialized or if there's a Firestore error
  * 
  * @example
  * // Get a specific user document
  * const user = await getDocument('users', 'user123');
+ * 
+ * @example
+ * // Get a document in a subcollection by its full path
+ * const order = await getDocument('users/user123/orders/o9');
+ * 
+ * @example
+ * // Get only the title and status of a large document
+ * const summary = await getDocument('reports/r1', undefined, ['title', 'status']);
+ * 
+ * @example
+ * // Read a document as it was before this morning's edit
+ * const earlier = await getDocument('users/user123', undefined, undefined, undefined, '2024-05-01T08:00:00Z');
  */
-export async function getDocument(collection: string, id: string) {
+export async function getDocument(collection: string, id?: string, select?: string[], maxResponseSize: number = DEFAULT_MAX_RESPONSE_SIZE, readTime?: string, database?: string) {
   try {
     // Check if Firebase is initialized
+    const db = getFirestore(database);
     if (!db) {
       return { content: [{ type: 'text', text: 'Firebase is not initialized. SERVICE_ACCOUNT_KEY_PATH environment variable is required.' }], isError: true };
     }
     
-    // Get the document
-    const doc = await db.collection(collection).doc(id).get();
+    // Get the document, reading only the selected fields if a mask is given
+    const documentPath = resolveDocumentPath(collection, id);
+    if (select && select.length === 0) {
+      throw new Error('select requires at least one field path');
+    }
+    const docRef = db.doc(documentPath);
+    const readOptions = select ? { fieldMask: select } : {};
+    const at = parseReadTime(readTime);
+    const [doc] = await readAt(db, at, transaction => transaction ? transaction.getAll(docRef, readOptions) : db.getAll(docRef, readOptions));
     
     // Handle document not found
     if (!doc.exists) {
-      return { content: [{ type: 'text', text: 'Document not found' }], isError: true };
+      return { content: [{ type: 'text', text: at ? `Document not found at ${formatTimestamp(at)}` : 'Document not found' }], isError: true };
     }
     
-    // Get project ID for console URL
-    const projectId = getProjectId();
-    const data = doc.data();
+    // Encode Firestore types for JSON serialization, truncating long values beyond the budget
+    const { documents: [{ document: data }], truncated } = fitDocuments([{ document: encodeDocument(doc.data()) }], maxResponseSize);
+    
+    // Format response for MCP, including the timestamps usable as write preconditions
+    return { content: [{ type: 'text', text: JSON.stringify({
+      id: doc.id,
+      path: documentPath,
+      url: getConsoleUrl(documentPath, db.databaseId),
+      createTime: formatTimestamp(doc.createTime!),
+      updateTime: formatTimestamp(doc.updateTime!),
+      ...(at ? { readTime: formatTimestamp(at) } : {}),
+      document: data,
+      ...(truncated ? { truncated } : {})
+    }) }] };
+  } catch (error) {
+    return { content: [{ type: 'text', text: `Error getting document: ${(error as Error).message}` }], isError: true };
+  }
+}
+
+/**
+ * Compares a document as it is now with the same document at a past time, within the
+ * point-in-time recovery window. The response includes the field-level diff from the
+ * earlier version to the current one and the earlier version itself, so wrongly edited or
+ * deleted data can be inspected without restoring a backup.
+ * 
+ * @param {string} collection - The collection path containing the document, or the full document path when id is omitted
+ * @param {string|undefined} id - The document ID
+ * @param {string} readTime - The RFC 3339 time to compare against
+ * @param {number} [maxResponseSize] - Maximum size of the serialized earlier version in characters; long values beyond it are truncated
+ * @param {string} [database] - Firestore database ID; defaults to the server's default database
+ * @returns {Promise<Object>} MCP-formatted response with whether the document existed at each time, its update times, the diff and the earlier version
+ * @throws {Error} If Firebase is not initialized or if there's a Firestore error
+ * 
+ * @example
+ * // What changed on this user since yesterday evening?
+ * const comparison = await compareVersions('users', 'user123', '2024-05-01T18:00:00Z');
+ */
+export async function compareVersions(collection: string, id: string | undefined, readTime: string, maxResponseSize: number = DEFAULT_MAX_RESPONSE_SIZE, database?: string) {
+  try {
+    // Check if Firebase is initialized
+    const db = getFirestore(database);
+    if (!db) {
+      return { content: [{ type: 'text', text: 'Firebase is not initialized. SERVICE_ACCOUNT_KEY_PATH environment variable is required.' }], isError: true };
+    }
     
-    // Convert timestamps for JSON serialization
-    convertTimestampsToISO(data);
+    // Read the document at the read time and now
+    if (!readTime) {
+      throw new Error('readTime is required');
+    }
+    const at = parseReadTime(readTime)!;
+    const documentPath = resolveDocumentPath(collection, id);
+    const docRef = db.doc(documentPath);
+    const [then, now] = await Promise.all([readAt(db, at, transaction => transaction!.get(docRef)), docRef.get()]);
     
-    // Generate console URL for the document
-    const consoleUrl = `https://console.firebase.google.com/project/${projectId}/firestore/data/${collection}/${id}`;
+    // Encode the earlier version, truncating long values beyond the budget
+    const diff = diffDocuments(then.data(), now.data());
+    const { documents: [{ document: previous }], truncated } = fitDocuments([{ document: encodeDocument(then.data()) }], maxResponseSize);
     
     // Format response for MCP
-    return { content: [{ type: 'text', text: JSON.stringify({ id, url: consoleUrl, document: data }) }] };
+    return { content: [{ type: 'text', text: JSON.stringify({
+      path: documentPath,
+      url: getConsoleUrl(documentPath, db.databaseId),
+      readTime: formatTimestamp(at),
+      existedThen: then.exists,
+      existsNow: now.exists,
+      updateTimeThen: then.updateTime ? formatTimestamp(then.updateTime) : null,
+      updateTimeNow: now.updateTime ? formatTimestamp(now.updateTime) : null,
+      changed: diff.added.length + diff.removed.length + diff.changed.length > 0,
+      diff,
+      previous,
+      ...(truncated ? { truncated } : {})
+    }) }] };
   } catch (error) {
-    return { content: [{ type: 'text', text: `Error getting document: ${(error as Error).message}` }], isError: true };
+    return { content: [{ type: 'text', text: `Error comparing versions: ${(error as Error).message}` }], isError: true };
   }
 }
 
 /**
- * Updates an existing document in a Firestore collection.
+ * Options controlling how setDocument writes a document.
+ */
+export interface SetDocumentOptions {
+  /** Merge the data into an existing document instead of replacing it */
+  merge?: boolean;
+  /** Only write these field paths (dotted for nested fields), leaving all other fields untouched */
+  mergeFields?: string[];
+  /** Fail if the document already exists */
+  createOnly?: boolean;
+  /** Fail unless the document exists and was last updated at exactly this time (RFC 3339, as returned by getDocument) */
+  lastUpdateTime?: string;
+  /** Return a field-level diff between the previous and the stored document */
+  returnDiff?: boolean;
+}
+
+/**
+ * Writes a single document in a transaction that first reads its current version, so the
+ * previous state used for a diff is exactly the one the write replaced.
+ *
+ * @param {DocumentReference} docRef - The document to write
+ * @param {Function} write - Checks the previous snapshot and adds the write to the transaction
+ * @returns {Promise<DocumentSnapshot>} The document as it was before the write
+ * @private
+ */
+async function writeInTransaction(docRef: DocumentReference, write: (transaction: Transaction, before: DocumentSnapshot) => void): Promise<DocumentSnapshot> {
+  return docRef.firestore.runTransaction(async transaction => {
+    const before = await transaction.get(docRef);
+    write(transaction, before);
+    return before;
+  });
+}
+
+/**
+ * Computes the document a committed write left behind from the version it replaced, so a diff
+ * only contains the changes made by that write even if the document has changed since.
+ * Server timestamps are only resolved when the write commits and are kept as sentinels,
+ * reported as `{ "__type": "serverTimestamp" }`.
+ *
+ * @param {Firestore} firestore - The Firestore instance
+ * @param {DocumentSnapshot|undefined} before - The version the write replaced, read in the writing transaction
+ * @param {DocumentWrite} write - The committed write
+ * @returns {Object|undefined} The document data after the write, or undefined if it was deleted
+ * @private
+ */
+function dataAfterWrite(firestore: Firestore, before: DocumentSnapshot | undefined, write: DocumentWrite): FirebaseFirestore.DocumentData | undefined {
+  const after = applyWrite(encodeDocument(before?.data()), write, { __type: 'serverTimestamp' });
+  return after ? decodeDocument(after, firestore) : undefined;
+}
+
+/**
+ * Creates or overwrites a document with a caller-chosen ID, addressed by collection and ID or by its full path.
+ * By default the document is replaced; merge and mergeFields write only part of it. createOnly refuses to
+ * overwrite an existing document, and lastUpdateTime makes the write conditional on the document not having
+ * changed since it was read, so read-modify-write cycles do not clobber concurrent changes.
+ * The stored document is read back and returned together with its new updateTime and, when
+ * returnDiff is set, the field-level diff between the version it replaced and the data this write stored.
+ * 
+ * @param {string} collection - The collection path containing the document, or the full document path when id is omitted
+ * @param {string|undefined} id - The document ID to write
+ * @param {any} data - The document data, with special types in typed JSON encoding
+ * @param {SetDocumentOptions} [options={}] - Merge behaviour, preconditions and whether to return a diff
+ * @param {string} [database] - Firestore database ID; defaults to the server's default database
+ * @returns {Promise<Object>} MCP-formatted response with the stored document, its createTime and updateTime and an optional diff,
+ *   or the field-level errors if the resulting document does not match the schema registered for its path
+ * @throws {Error} If Firebase is not initialized or if there's a Firestore error
+ * 
+ * @example
+ * // Upsert a settings document
+ * const result = await setDocument('settings', 'theme', { mode: 'dark' }, { merge: true });
+ * 
+ * @example
+ * // Overwrite a document only if nobody changed it since it was read
+ * const result = await setDocument('users/user123', undefined, user, { lastUpdateTime: '2024-01-01T12:00:00.123456789Z' });
+ */
+export async function setDocument(collection: string, id: string | undefined, data: any, options: SetDocumentOptions = {}, database?: string) {
+  try {
+    // Check if Firebase is initialized
+    const db = getFirestore(database);
+    if (!db) {
+      return { content: [{ type: 'text', text: 'Firebase is not initialized. SERVICE_ACCOUNT_KEY_PATH environment variable is required.' }], isError: true };
+    }
+    
+    // Validate the option combination
+    const { merge, mergeFields, createOnly, lastUpdateTime, returnDiff } = options;
+    if (merge && mergeFields) {
+      throw new Error('merge and mergeFields cannot be combined');
+    }
+    if (createOnly && (merge || mergeFields || lastUpdateTime)) {
+      throw new Error('createOnly cannot be combined with merge, mergeFields or lastUpdateTime');
+    }
+    const setOptions = mergeFields ? { mergeFields } : { merge: !!merge };
+    
+    const documentPath = resolveDocumentPath(collection, id);
+    const docRef = db.doc(documentPath);
+    const decoded = decodeDocument(data, db);
+    const write = { type: 'set' as const, path: documentPath, data, merge, mergeFields };
+    let before: DocumentSnapshot | undefined;
+    
+    if (createOnly) {
+      // create() fails with ALREADY_EXISTS if the document is present
+      checkWrites([write]);
+      try {
+        await docRef.create(decoded);
+      } catch (error) {
+        if ((error as { code?: number }).code === 6) {
+          throw new Error(`Document '${documentPath}' already exists`);
+        }
+        throw error;
+      }
+    } else if (lastUpdateTime || returnDiff || ((merge || mergeFields) && hasSchema(documentPath))) {
+      // set() takes no precondition, so check the update time inside a transaction
+      // A merge is validated against the current document read in the same transaction
+      const expected = lastUpdateTime ? parseTimestamp(lastUpdateTime) : undefined;
+      before = await writeInTransaction(docRef, (transaction, current) => {
+        if (expected && !current.exists) {
+          throw new Error(`Document '${documentPath}' does not exist`);
+        }
+        if (expected && !current.updateTime!.isEqual(expected)) {
+          throw new Error(`Document '${documentPath}' was modified at ${formatTimestamp(current.updateTime!)}, after lastUpdateTime ${formatTimestamp(expected)}; read it again and retry`);
+        }
+        checkWrites([write], new Map([[documentPath, encodeDocument(current.data())]]));
+        transaction.set(docRef, decoded, setOptions);
+      });
+    } else {
+      checkWrites([write]);
+      await docRef.set(decoded, setOptions);
+    }
+    
+    // Read the stored document back so sentinels are resolved and updateTime matches the returned data
+    const doc = await docRef.get();
+    
+    // Format response for MCP
+    return { content: [{ type: 'text', text: JSON.stringify({
+      id: doc.id,
+      path: documentPath,
+      url: getConsoleUrl(documentPath, db.databaseId),
+      createTime: doc.exists ? formatTimestamp(doc.createTime!) : null,
+      updateTime: doc.exists ? formatTimestamp(doc.updateTime!) : null,
+      document: encodeDocument(doc.data()),
+      ...(returnDiff ? { diff: diffDocuments(before?.data(), dataAfterWrite(db, before, write)) } : {})
+    }) }] };
+  } catch (error) {
+    return { content: writeErrorContent(error, 'setting document'), isError: true };
+  }
+}
+
+/**
+ * Updates an existing document in Firestore, addressed by collection and ID or by its full path.
  * 
- * @param {string} collection - The collection path containing the document
- * @param {string} id - The document ID to update
- * @param {any} data - The document data to update (fields will be merged)
- * @returns {Promise<Object>} MCP-formatted response with the updated document data
+ * @param {string} collection - The collection path containing the document, or the full document path when id is omitted
+ * @param {string|undefined} id - The document ID to update
+ * @param {any} data - The document data to update (fields will be merged), with special types in typed JSON encoding
+ * @param {boolean} [returnDiff=false] - Return a field-level diff between the previous and the stored document
+ * @param {string} [database] - Firestore database ID; defaults to the server's default database
+ * @returns {Promise<Object>} MCP-formatted response with the updated document data and an optional diff, or the
+ *   field-level errors if the updated document does not match the schema registered for its path
  * @throws {Error} If Firebase is not initialized or if there's a Firestore error
  * 
  * @example
  * // Update a user's status
  * const result = await updateDocument('users', 'user123', { 
  *   status: 'inactive',
- *   lastUpdated: new Date()
+ *   lastUpdated: { __type: 'serverTimestamp' }
  * });
  */
-export async function updateDocument(collection: string, id: string, data: any) {
+export async function updateDocument(collection: string, id: string | undefined, data: any, returnDiff: boolean = false, database?: string) {
   try {
     // Check if Firebase is initialized
+    const db = getFirestore(database);
     if (!db) {
       return { content: [{ type: 'text', text: 'Firebase is not initialized. SERVICE_ACCOUNT_KEY_PATH environment variable is required.' }], isError: true };
     }
     
     // Update the document
-    await db.collection(collection).doc(id).update(data);
-    
-    // Get project ID for console URL
-    const projectId = getProjectId();
-    
-    // Convert timestamps for JSON serialization
-    convertTimestampsToISO(data);
+    const documentPath = resolveDocumentPath(collection, id);
+    const docRef = db.doc(documentPath);
+    const decoded = decodeDocument(data, db);
+    const validate = hasSchema(documentPath);
+    if (!returnDiff && !validate) {
+      await docRef.update(decoded);
+      
+      // Format response for MCP
+      return { content: [{ type: 'text', text: JSON.stringify({ id: docRef.id, path: documentPath, url: getConsoleUrl(documentPath, db.databaseId), document: data }) }] };
+    }
     
-    // Generate console URL for the document
-    const consoleUrl = `https://console.firebase.google.com/project/${projectId}/firestore/data/${collection}/${id}`;
+    // Read the previous version in the same transaction and validate the merged result against it
+    const write = { type: 'update' as const, path: documentPath, data };
+    const before = await writeInTransaction(docRef, (transaction, current) => {
+      if (!current.exists) {
+        throw new Error(`Document '${documentPath}' does not exist`);
+      }
+      checkWrites([write], new Map([[documentPath, encodeDocument(current.data())]]));
+      transaction.update(docRef, decoded);
+    });
     
     // Format response for MCP
-    return { content: [{ type: 'text', text: JSON.stringify({ id, url: consoleUrl, document: data }) }] };
+    return { content: [{ type: 'text', text: JSON.stringify({
+      id: docRef.id,
+      path: documentPath,
+      url: getConsoleUrl(documentPath, db.databaseId),
+      document: data,
+      ...(returnDiff ? { diff: diffDocuments(before.data(), dataAfterWrite(db, before, write)) } : {})
+    }) }] };
   } catch (error) {
-    return { content: [{ type: 'text', text: `Error updating document: ${(error as Error).message}` }], isError: true };
+    return { content: writeErrorContent(error, 'updating document'), isError: true };
   }
 }
 
 /**
- * Deletes a document from a Firestore collection.
+ * Deletes a document from Firestore, addressed by collection and ID or by its full path.
  * 
- * @param {string} collection - The collection path containing the document
- * @param {string} id - The document ID to delete
- * @returns {Promise<Object>} MCP-formatted response confirming deletion
+ * @param {string} collection - The collection path containing the document, or the full document path when id is omitted
+ * @param {string} [id] - The document ID to delete
+ * @param {boolean} [returnDiff=false] - Return the removed fields as a field-level diff
+ * @param {string} [database] - Firestore database ID; defaults to the server's default database
+ * @returns {Promise<Object>} MCP-formatted response confirming deletion, with an optional diff
  * @throws {Error} If Firebase is not initialized or if there's a Firestore error
  * 
  * @example
  * // Delete a user document
  * const result = await deleteDocument('users', 'user123');
  */
-export async function deleteDocument(collection: string, id: string) {
+export async function deleteDocument(collection: string, id?: string, returnDiff: boolean = false, database?: string) {
   try {
     // Check if Firebase is initialized
+    const db = getFirestore(database);
     if (!db) {
       return { content: [{ type: 'text', text: 'Firebase is not initialized. SERVICE_ACCOUNT_KEY_PATH environment variable is required.' }], isError: true };
     }
     
     // Delete the document
-    await db.collection(collection).doc(id).delete();
+    const documentPath = resolveDocumentPath(collection, id);
+    const docRef = db.doc(documentPath);
+    if (!returnDiff) {
+      await docRef.delete();
+      
+      // Format response for MCP
+      return { content: [{ type: 'text', text: 'Document deleted successfully' }] };
+    }
+    
+    // Read the deleted version in the same transaction
+    const before = await writeInTransaction(docRef, transaction => {
+      transaction.delete(docRef);
+    });
     
     // Format response for MCP
-    return { content: [{ type: 'text', text: 'Document deleted successfully' }] };
+    return { content: [{ type: 'text', text: JSON.stringify({
+      path: documentPath,
+      deleted: true,
+      existed: before.exists,
+      diff: diffDocuments(before.data(), undefined)
+    }) }] };
   } catch (error) {
     return { content: [{ type: 'text', text: `Error deleting document: ${(error as Error).message}` }], isError: true };
   }
 }
+
+/** How long a recursive delete confirmation token stays valid, in milliseconds */
+const DELETE_CONFIRMATION_TTL = 10 * 60 * 1000;
+
+/**
+ * Confirmation tokens issued by recursive delete previews, keyed by token.
+ * Tokens are single-use and bound to the previewed path and database.
+ * @private
+ */
+const pendingDeletes = new Map<string, { path: string, databaseId: string, expiresAt: number }>();
+
+/** Most documents a recursive delete preview looks up subcollections of */
+const MAX_PREVIEW_DOCUMENTS = 1000;
+
+/** Number of documents whose subcollections are listed in parallel */
+const LIST_COLLECTIONS_BATCH_SIZE = 20;
+
+/**
+ * Counts the documents in a set of collections and their descendant subcollections.
+ * Each collection is counted with an aggregation query. Finding subcollections takes one
+ * request per document, so the traversal stops descending once it would look up more than
+ * 1000 documents, and the counts of deeper collections are then left out.
+ * Documents that do not exist but have subcollections are traversed as well.
+ * 
+ * @param {Array<CollectionReference>} collections - The collections to start from
+ * @returns {Promise<Object>} Number of documents per collection path, and whether every descendant collection was counted
+ * @private
+ */
+async function countDescendants(collections: CollectionReference[]): Promise<{ counts: Record<string, number>, complete: boolean }> {
+  const counts: Record<string, number> = {};
+  const pending = [...collections];
+  let remaining = MAX_PREVIEW_DOCUMENTS;
+  let complete = true;
+  while (pending.length > 0) {
+    const collectionRef = pending.shift()!;
+    const countSnapshot = await collectionRef.count().get();
+    counts[collectionRef.path] = countSnapshot.data().count;
+    
+    // Do not list the documents of collections too large to descend into
+    if (counts[collectionRef.path] > remaining) {
+      complete = false;
+      continue;
+    }
+    
+    // listDocuments() also returns missing parent documents that only hold subcollections
+    const docRefs = await collectionRef.listDocuments();
+    if (docRefs.length > remaining) {
+      complete = false;
+    }
+    const lookedUp = docRefs.slice(0, remaining);
+    remaining -= lookedUp.length;
+    for (let start = 0; start < lookedUp.length; start += LIST_COLLECTIONS_BATCH_SIZE) {
+      const batch = lookedUp.slice(start, start + LIST_COLLECTIONS_BATCH_SIZE);
+      for (const subcollections of await Promise.all(batch.map(docRef => docRef.listCollections()))) {
+        pending.push(...subcollections);
+      }
+    }
+  }
+  return { counts, complete };
+}
+
+/**
+ * Deletes a document or a whole collection together with all descendant subcollections.
+ * The deletion is a two-step process: called without a confirmation token, it performs a dry run
+ * that reports how many documents would be removed per collection and returns a single-use
+ * confirmation token. Calling it again with that token, within 10 minutes, performs the deletion.
+ * The dry run counts each collection with an aggregation query but needs one request per
+ * document to find subcollections; it looks up at most 1000 documents and reports
+ * `complete: false` when deeper collections were not counted. The deletion removes them anyway.
+ * 
+ * @param {string} targetPath - A document path (e.g. 'users/u1') or collection path (e.g. 'users/u1/orders')
+ * @param {string} [confirmationToken] - Token returned by the dry run; omit to preview the deletion
+ * @param {string} [database] - Firestore database ID; defaults to the server's default database
+ * @returns {Promise<Object>} MCP-formatted response with the preview or the deletion result
+ * @throws {Error} If Firebase is not initialized or if there's a Firestore error
+ * 
+ * @example
+ * // Preview, then delete a user and all of their subcollections
+ * const preview = await deleteRecursive('users/u1');
+ * const { confirmationToken } = JSON.parse(preview.content[0].text);
+ * const result = await deleteRecursive('users/u1', confirmationToken);
+ */
+export async function deleteRecursive(targetPath: string, confirmationToken?: string, database?: string) {
+  try {
+    // Check if Firebase is initialized
+    const db = getFirestore(database);
+    if (!db) {
+      return { content: [{ type: 'text', text: 'Firebase is not initialized. SERVICE_ACCOUNT_KEY_PATH environment variable is required.' }], isError: true };
+    }
+    
+    // Collection paths have an odd number of segments, document paths an even number
+    const isCollection = splitPath(targetPath).length % 2 === 1;
+    const normalizedPath = isCollection ? normalizeCollectionPath(targetPath) : normalizeDocumentPath(targetPath);
+    const target = isCollection ? db.collection(normalizedPath) : db.doc(normalizedPath);
+    
+    if (!confirmationToken) {
+      // Dry run: count every document that would be removed
+      let documentExists = false;
+      let descendants: { counts: Record<string, number>, complete: boolean };
+      if (target instanceof DocumentReference) {
+        documentExists = (await target.get()).exists;
+        descendants = await countDescendants(await target.listCollections());
+      } else {
+        descendants = await countDescendants([target]);
+      }
+      const { counts, complete } = descendants;
+      const totalDocuments = Object.values(counts).reduce((sum, count) => sum + count, documentExists ? 1 : 0);
+      
+      // Issue a single-use confirmation token bound to this path and database, dropping expired ones
+      for (const [token, entry] of pendingDeletes) {
+        if (entry.expiresAt < Date.now()) {
+          pendingDeletes.delete(token);
+        }
+      }
+      const token = randomBytes(16).toString('hex');
+      pendingDeletes.set(token, { path: normalizedPath, databaseId: db.databaseId, expiresAt: Date.now() + DELETE_CONFIRMATION_TTL });
+      
+      // Format response for MCP
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            dryRun: true,
+            path: normalizedPath,
+            url: getConsoleUrl(normalizedPath, db.databaseId),
+            ...(isCollection ? {} : { documentExists }),
+            totalDocuments,
+            complete,
+            collections: counts,
+            confirmationToken: token,
+            expiresAt: new Date(Date.now() + DELETE_CONFIRMATION_TTL).toISOString()
+          })
+        }]
+      };
+    }
+    
+    // Validate the confirmation token before deleting anything
+    const pending = pendingDeletes.get(confirmationToken);
+    if (!pending || pending.path !== normalizedPath || pending.databaseId !== db.databaseId || pending.expiresAt < Date.now()) {
+      return { content: [{ type: 'text', text: `Invalid or expired confirmation token for '${normalizedPath}'. Run a dry run first to get a new token.` }], isError: true };
+    }
+    pendingDeletes.delete(confirmationToken);
+    
+    // Delete the whole tree, counting the deleted documents
+    let deleted = 0;
+    const bulkWriter = db.bulkWriter();
+    bulkWriter.onWriteResult(() => {
+      deleted++;
+    });
+    await db.recursiveDelete(target, bulkWriter);
+    
+    // Format response for MCP
+    return { content: [{ type: 'text', text: JSON.stringify({ dryRun: false, path: normalizedPath, deleted }) }] };
+  } catch (error) {
+    return { content: [{ type: 'text', text: `Error deleting recursively: ${(error as Error).message}` }], isError: true };
+  }
+}
+
+/**
+ * Callback used by long-running operations to report progress to the MCP client.
+ * 
+ * @callback ProgressCallback
+ * @param {number} progress - Number of items processed so far
+ * @param {number} [total] - Total number of items, if known
+ */
+export type ProgressCallback = (progress: number, total?: number) => void;
+
+/**
+ * Exports the documents of a collection to a local NDJSON file, one document per line in the form
+ * `{"path": "users/u1", "data": {...}}`. Values use the typed JSON encoding, so the file can be
+ * imported again without losing types. Documents are streamed rather than loaded all at once.
+ * 
+ * @param {string} collection - The collection path to export (e.g. 'users' or 'users/u1/orders')
+ * @param {string} outputPath - The local file to write; parent directories are created as needed
+ * @param {boolean} [recursive=false] - Whether to also export the subcollections of every exported document
+ * @param {string} [database] - Firestore database ID; defaults to the server's default database
+ * @returns {Promise<Object>} MCP-formatted response with the file path and document counts
+ * @throws {Error} If Firebase is not initialized or if there's a Firestore or file system error
+ * 
+ * @example
+ * // Snapshot users and their subcollections before a risky edit
+ * const result = await exportCollection('users', './backups/users.ndjson', true);
+ */
+export async function exportCollection(collection: string, outputPath: string, recursive: boolean = false, database?: string) {
+  try {
+    // Check if Firebase is initialized
+    const db = getFirestore(database);
+    if (!db) {
+      return { content: [{ type: 'text', text: 'Firebase is not initialized. SERVICE_ACCOUNT_KEY_PATH environment variable is required.' }], isError: true };
+    }
+    const firestore = db;
+    
+    // Open the output file, failing before any document is read if it cannot be written
+    const filePath = path.resolve(outputPath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const stream = fs.createWriteStream(filePath, { encoding: 'utf8' });
+    await once(stream, 'open');
+    
+    // Stream each collection and queue subcollections of the exported documents
+    const counts: Record<string, number> = {};
+    async function* exportLines() {
+      const pending = [normalizeCollectionPath(collection)];
+      while (pending.length > 0) {
+        const collectionPath = pending.shift()!;
+        counts[collectionPath] = 0;
+        for await (const doc of firestore.collection(collectionPath).stream() as AsyncIterable<FirebaseFirestore.QueryDocumentSnapshot>) {
+          yield `${JSON.stringify({ path: doc.ref.path, data: encodeDocument(doc.data()) })}\n`;
+          counts[collectionPath]++;
+          if (recursive) {
+            const subcollections = await doc.ref.listCollections();
+            pending.push(...subcollections.map(subcollection => subcollection.path));
+          }
+        }
+      }
+    }
+    
+    // pipeline() waits for the stream to drain and closes it, rejecting on read or write errors
+    await pipeline(Readable.from(exportLines()), stream);
+    
+    // Format response for MCP
+    const documents = Object.values(counts).reduce((sum, count) => sum + count, 0);
+    return { content: [{ type: 'text', text: JSON.stringify({ file: filePath, documents, collections: counts }) }] };
+  } catch (error) {
+    return { content: [{ type: 'text', text: `Error exporting collection: ${(error as Error).message}` }], isError: true };
+  }
+}
+
+/** Number of imported records validated and written together */
+const IMPORT_BATCH_SIZE = 500;
+
+/**
+ * A document record read from an NDJSON export file.
+ * @private
+ */
+interface ImportRecord {
+  line: number;
+  path: string;
+  encoded: Record<string, any>;
+  data: FirebaseFirestore.DocumentData;
+}
+
+/**
+ * Streams the records of an NDJSON export file line by line, skipping blank lines.
+ *
+ * @param {string} filePath - The file to read
+ * @param {Firestore} firestore - The Firestore instance used to decode typed values
+ * @returns {AsyncGenerator<ImportRecord>} The records in file order
+ * @throws {Error} If the file cannot be read or a line is not a valid record
+ * @private
+ */
+async function* readImportRecords(filePath: string, firestore: Firestore): AsyncGenerator<ImportRecord> {
+  const input = fs.createReadStream(filePath, { encoding: 'utf8' });
+  let line = 0;
+  for await (const text of readline.createInterface({ input, crlfDelay: Infinity })) {
+    line++;
+    if (text.trim() === '') {
+      continue;
+    }
+    let record: ImportRecord;
+    try {
+      const parsed = JSON.parse(text);
+      record = { line, path: normalizeDocumentPath(parsed.path), encoded: parsed.data, data: decodeDocument(parsed.data, firestore) };
+    } catch (error) {
+      input.destroy();
+      throw new Error(`Invalid record on line ${line}: ${(error as Error).message}`);
+    }
+    yield record;
+  }
+}
+
+/**
+ * Imports documents from an NDJSON file produced by exportCollection, writing them with a
+ * BulkWriter. Each document is written to the path recorded in the file. Progress is reported
+ * through the optional callback, and failed writes are collected instead of aborting the import.
+ * Documents that do not match the schemas registered for their paths are not written and are
+ * reported with their field-level errors.
+ * 
+ * The file is streamed twice: once to check every record, so nothing is written if a line is
+ * malformed, and once to validate and write the records 500 at a time.
+ * 
+ * @param {string} inputPath - The local NDJSON file to read
+ * @param {boolean} [merge=false] - Merge into existing documents instead of replacing them
+ * @param {ProgressCallback} [onProgress] - Called periodically with the number of documents processed
+ * @param {string} [database] - Firestore database ID; defaults to the server's default database
+ * @returns {Promise<Object>} MCP-formatted response with written and failed document counts
+ * @throws {Error} If Firebase is not initialized or if there's a Firestore or file system error
+ * 
+ * @example
+ * // Seed the emulator from a production-like fixture
+ * const result = await importCollection('./fixtures/users.ndjson');
+ */
+export async function importCollection(inputPath: string, merge: boolean = false, onProgress?: ProgressCallback, database?: string) {
+  try {
+    // Check if Firebase is initialized
+    const db = getFirestore(database);
+    if (!db) {
+      return { content: [{ type: 'text', text: 'Firebase is not initialized. SERVICE_ACCOUNT_KEY_PATH environment variable is required.' }], isError: true };
+    }
+    const firestore = db;
+    
+    // Check every record before writing anything
+    const filePath = path.resolve(inputPath);
+    let total = 0;
+    for await (const _record of readImportRecords(filePath, firestore)) {
+      total++;
+    }
+    
+    const failures: Array<{ line: number, path: string, error: string, invalidFields?: ValidationIssue[] }> = [];
+    let processed = 0;
+    const report = () => {
+      processed++;
+      if (onProgress && (processed % 100 === 0 || processed === total)) {
+        onProgress(processed, total);
+      }
+    };
+    
+    // Skip the records of a batch that do not match their schemas and write the others with a
+    // BulkWriter, collecting failures per record
+    const bulkWriter = firestore.bulkWriter();
+    const importBatch = async (records: ImportRecord[]) => {
+      const invalid = await findInvalidSets(firestore, records.map(record => ({ path: record.path, data: record.encoded })), merge);
+      const writes = records.map((record, index) => {
+        const validationError = invalid.get(index);
+        if (validationError) {
+          failures.push({ line: record.line, path: record.path, error: validationError.message, invalidFields: validationError.documents[0].errors });
+          report();
+          return Promise.resolve();
+        }
+        return bulkWriter.set(firestore.doc(record.path), record.data, { merge })
+          .then(report)
+          .catch((error: Error) => {
+            failures.push({ line: record.line, path: record.path, error: error.message });
+            report();
+          });
+      });
+      await bulkWriter.flush();
+      await Promise.all(writes);
+    };
+    
+    // Stream the file again, importing it batch by batch
+    let batch: ImportRecord[] = [];
+    for await (const record of readImportRecords(filePath, firestore)) {
+      batch.push(record);
+      if (batch.length === IMPORT_BATCH_SIZE) {
+        await importBatch(batch);
+        batch = [];
+      }
+    }
+    await importBatch(batch);
+    await bulkWriter.close();
+    failures.sort((a, b) => a.line - b.line);
+    
+    // Format response for MCP
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({ file: filePath, written: processed - failures.length, failed: failures.length, failures })
+      }]
+    };
+  } catch (error) {
+    return { content: [{ type: 'text', text: `Error importing collection: ${(error as Error).message}` }], isError: true };
+  }
+}
@@ -0,0 +1,304 @@
+/**
+ * Firestore Type Codec
+ *
+ * This module converts Firestore values to and from a typed JSON encoding so that data
+ * read or written through the MCP tools round-trips without losing type information.
+ * Special values are represented as objects with a `__type` discriminator and are
+ * handled recursively inside maps and arrays.
+ *
+ * Supported encodings:
+ * - `{ "__type": "timestamp", "value": "2024-01-01T12:00:00.123456789Z" }`
+ * - `{ "__type": "geopoint", "latitude": 51.5, "longitude": -0.12 }`
+ * - `{ "__type": "reference", "path": "users/alice" }`
+ * - `{ "__type": "bytes", "base64": "aGVsbG8=" }`
+ * - `{ "__type": "vector", "values": [0.1, 0.2] }`
+ * - `{ "__type": "number", "value": "NaN" | "Infinity" | "-Infinity" }`
+ * - `{ "__type": "map", "value": { ... } }` for maps that contain a literal `__type` key
+ *
+ * Write sentinels (only accepted on writes):
+ * - `{ "__type": "serverTimestamp" }`
+ * - `{ "__type": "increment", "operand": 1 }`
+ * - `{ "__type": "arrayUnion", "elements": [...] }`
+ * - `{ "__type": "arrayRemove", "elements": [...] }`
+ * - `{ "__type": "deleteField" }`
+ *
+ * @module firebase-mcp/firestore-codec
+ */
+
+import { DocumentReference, FieldValue, Firestore, GeoPoint, Timestamp } from 'firebase-admin/firestore';
+
+/**
+ * The VectorValue class is not re-exported by firebase-admin, so it is taken from an instance.
+ * @private
+ */
+const VectorValue = FieldValue.vector([]).constructor as typeof FirebaseFirestore.VectorValue;
+
+/**
+ * Options controlling how typed JSON values are decoded.
+ *
+ * @property {boolean} [allowSentinels=false] - Whether write sentinels such as serverTimestamp are accepted
+ */
+export interface DecodeOptions {
+  allowSentinels?: boolean;
+}
+
+/**
+ * Formats a Timestamp as an RFC 3339 string with nanosecond precision.
+ *
+ * @param {Timestamp} timestamp - The timestamp to format
+ * @returns {string} The formatted timestamp, e.g. '2024-01-01T12:00:00.123456789Z'
+ */
+export function formatTimestamp(timestamp: Timestamp): string {
+  const iso = new Date(timestamp.seconds * 1000).toISOString();
+  const nanos = String(timestamp.nanoseconds).padStart(9, '0');
+  return `${iso.slice(0, 19)}.${nanos}Z`;
+}
+
+/**
+ * Parses an RFC 3339 string into a Timestamp, keeping sub-millisecond precision.
+ *
+ * @param {string} value - The timestamp string
+ * @returns {Timestamp} The parsed timestamp
+ * @throws {Error} If the string is not a valid timestamp
+ */
+export function parseTimestamp(value: string): Timestamp {
+  const millis = Date.parse(value);
+  if (typeof value !== 'string' || isNaN(millis)) {
+    throw new Error(`Invalid timestamp value '${value}'`);
+  }
+
+  // Date.parse truncates to milliseconds, so read the fractional seconds separately
+  const fraction = /T\d{2}:\d{2}:\d{2}\.(\d{1,9})/.exec(value);
+  if (!fraction) {
+    return Timestamp.fromMillis(millis);
+  }
+  const nanoseconds = Number(fraction[1].padEnd(9, '0'));
+  const seconds = Math.floor(millis / 1000);
+  return new Timestamp(seconds, nanoseconds);
+}
+
+/**
+ * Encodes a Firestore value into typed JSON.
+ *
+ * @param {any} value - A value read from Firestore
+ * @returns {any} The JSON-safe typed encoding of the value
+ *
+ * @example
+ * encodeValue(Timestamp.fromDate(new Date('2024-01-01')));
+ * // => { __type: 'timestamp', value: '2024-01-01T00:00:00.000000000Z' }
+ */
+export function encodeValue(value: any): any {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : { __type: 'number', value: String(value) };
+  }
+  if (typeof value !== 'object') {
+    return value;
+  }
+  if (value instanceof Timestamp) {
+    return { __type: 'timestamp', value: formatTimestamp(value) };
+  }
+  if (value instanceof GeoPoint) {
+    return { __type: 'geopoint', latitude: value.latitude, longitude: value.longitude };
+  }
+  if (value instanceof DocumentReference) {
+    return { __type: 'reference', path: value.path };
+  }
+  if (value instanceof Uint8Array) {
+    return { __type: 'bytes', base64: Buffer.from(value).toString('base64') };
+  }
+  if (value instanceof VectorValue) {
+    return { __type: 'vector', values: value.toArray() };
+  }
+  if (value instanceof FieldValue && value.isEqual(FieldValue.serverTimestamp())) {
+    // Left in computed documents for values only resolved when the write commits
+    return { __type: 'serverTimestamp' };
+  }
+  if (value instanceof Date) {
+    return { __type: 'timestamp', value: formatTimestamp(Timestamp.fromDate(value)) };
+  }
+  if (Array.isArray(value)) {
+    return value.map(encodeValue);
+  }
+
+  const encoded: Record<string, any> = {};
+  for (const key of Object.keys(value)) {
+    encoded[key] = encodeValue(value[key]);
+  }
+  // Escape maps whose own keys would be mistaken for a typed value
+  return '__type' in encoded ? { __type: 'map', value: encoded } : encoded;
+}
+
+/**
+ * Returns the Firestore type name of a value read from Firestore.
+ *
+ * @param {any} value - A value read from Firestore
+ * @returns {string} One of 'null', 'boolean', 'string', 'integer', 'double', 'timestamp', 'geopoint',
+ *   'reference', 'bytes', 'vector', 'array' or 'map'
+ *
+ * @example
+ * getValueType(db.doc('users/alice')); // => 'reference'
+ */
+export function getValueType(value: any): string {
+  if (value === null || value === undefined) {
+    return 'null';
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'double';
+  }
+  if (typeof value !== 'object') {
+    return typeof value;
+  }
+  if (value instanceof Timestamp) {
+    return 'timestamp';
+  }
+  if (value instanceof GeoPoint) {
+    return 'geopoint';
+  }
+  if (value instanceof DocumentReference) {
+    return 'reference';
+  }
+  if (value instanceof Uint8Array) {
+    return 'bytes';
+  }
+  if (value instanceof VectorValue) {
+    return 'vector';
+  }
+  return Array.isArray(value) ? 'array' : 'map';
+}
+
+/**
+ * Encodes the data of a Firestore document into typed JSON.
+ *
+ * @param {Object|undefined} data - The document data, as returned by `snapshot.data()`
+ * @returns {Object|null} The encoded document data, or null if the document has no data
+ */
+export function encodeDocument(data: FirebaseFirestore.DocumentData | undefined): Record<string, any> | null {
+  if (!data) {
+    return null;
+  }
+  const encoded: Record<string, any> = {};
+  for (const key of Object.keys(data)) {
+    encoded[key] = encodeValue(data[key]);
+  }
+  return encoded;
+}
+
+/**
+ * Decodes every field of a map, without interpreting the map itself as a typed value.
+ *
+ * @param {Object} map - The map of typed JSON values
+ * @param {Firestore} firestore - The Firestore instance used to build document references
+ * @param {DecodeOptions} options - Decoding options
+ * @returns {Object} The decoded map
+ * @private
+ */
+function decodeMap(map: Record<string, any>, firestore: Firestore, options: DecodeOptions): Record<string, any> {
+  const decoded: Record<string, any> = {};
+  for (const key of Object.keys(map)) {
+    decoded[key] = decodeValue(map[key], firestore, options);
+  }
+  return decoded;
+}
+
+/**
+ * Decodes a typed JSON value into the value to store in or compare against Firestore.
+ *
+ * @param {any} value - The typed JSON value
+ * @param {Firestore} firestore - The Firestore instance used to build document references
+ * @param {DecodeOptions} [options={}] - Decoding options
+ * @returns {any} The Firestore value
+ * @throws {Error} If a typed value is malformed, unknown, or a sentinel where none is allowed
+ *
+ * @example
+ * decodeValue({ __type: 'reference', path: 'users/alice' }, db);
+ * // => DocumentReference to users/alice
+ */
+export function decodeValue(value: any, firestore: Firestore, options: DecodeOptions = {}): any {
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => decodeValue(item, firestore, options));
+  }
+  if (!('__type' in value)) {
+    return decodeMap(value, firestore, options);
+  }
+
+  const sentinel = (create: () => FieldValue) => {
+    if (!options.allowSentinels) {
+      throw new Error(`Typed value '${value.__type}' is only allowed in written data`);
+    }
+    return create();
+  };
+
+  switch (value.__type) {
+    case 'timestamp':
+      return parseTimestamp(value.value);
+    case 'geopoint':
+      return new GeoPoint(value.latitude, value.longitude);
+    case 'reference':
+      if (typeof value.path !== 'string' || value.path.split('/').length % 2 !== 0) {
+        throw new Error(`Invalid reference path '${value.path}': expected a document path`);
+      }
+      return firestore.doc(value.path);
+    case 'bytes':
+      if (typeof value.base64 !== 'string') {
+        throw new Error('Invalid bytes value: expected a base64 string');
+      }
+      return Buffer.from(value.base64, 'base64');
+    case 'vector':
+      if (!Array.isArray(value.values)) {
+        throw new Error('Invalid vector value: expected an array of numbers');
+      }
+      return FieldValue.vector(value.values);
+    case 'number':
+      if (!['NaN', 'Infinity', '-Infinity'].includes(value.value)) {
+        throw new Error(`Invalid number value '${value.value}'`);
+      }
+      return Number(value.value);
+    case 'map':
+      if (!value.value || typeof value.value !== 'object' || Array.isArray(value.value)) {
+        throw new Error('Invalid map value: expected an object');
+      }
+      return decodeMap(value.value, firestore, options);
+    case 'serverTimestamp':
+      return sentinel(() => FieldValue.serverTimestamp());
+    case 'deleteField':
+      return sentinel(() => FieldValue.delete());
+    case 'increment':
+      if (typeof value.operand !== 'number') {
+        throw new Error('Invalid increment value: expected a numeric operand');
+      }
+      return sentinel(() => FieldValue.increment(value.operand));
+    case 'arrayUnion':
+    case 'arrayRemove': {
+      if (!Array.isArray(value.elements)) {
+        throw new Error(`Invalid ${value.__type} value: expected an array of elements`);
+      }
+      const elements = value.elements.map((item: any) => decodeValue(item, firestore));
+      return sentinel(() => value.__type === 'arrayUnion' ? FieldValue.arrayUnion(...elements) : FieldValue.arrayRemove(...elements));
+    }
+    case 'truncated':
+      throw new Error('Truncated values cannot be written: read the document again with a larger maxResponseSize or a select mask');
+    default:
+      throw new Error(`Unknown typed value '${value.__type}'`);
+  }
+}
+
+/**
+ * Decodes typed JSON document data for a write, allowing write sentinels.
+ *
+ * @param {Object} data - The typed JSON document data
+ * @param {Firestore} firestore - The Firestore instance used to build document references
+ * @returns {Object} The document data to write
+ * @throws {Error} If the data is not an object or contains malformed typed values
+ */
+export function decodeDocument(data: any, firestore: Firestore): FirebaseFirestore.DocumentData {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('Document data must be an object');
+  }
+  return decodeMap(data, firestore, { allowSentinels: true });
+}
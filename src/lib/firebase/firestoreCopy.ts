@@ -0,0 +1,315 @@
+/**
+ * Firestore Copy and Move
+ *
+ * This module copies a document, optionally with all of its descendant subcollections, to a
+ * new path or ID, and moves documents by copying them and then deleting the source. Reference
+ * fields that point inside the copied subtree are rewritten to point at the copies, so a
+ * renamed document keeps its internal links. Existing target documents are only replaced
+ * when overwriting is requested, and copies are validated against the schemas registered
+ * for their paths before anything is written.
+ * All exported tool functions return data in a format compatible with the MCP protocol response structure.
+ *
+ * @module firebase-mcp/firestore-copy
+ */
+
+import { BulkWriter, DocumentReference, DocumentSnapshot, Firestore } from 'firebase-admin/firestore';
+import { getFirestore } from './firebaseConfig';
+import type { ProgressCallback } from './firestoreClient';
+import { encodeDocument, getValueType } from './firestoreCodec';
+import { getConsoleUrl, normalizeDocumentPath, splitPath } from './firestorePaths';
+import { checkWrites, hasSchema, writeErrorContent } from './firestoreValidation';
+
+/** Number of failed writes included in the response */
+const MAX_REPORTED_FAILURES = 100;
+
+/**
+ * Options for copyDocument and moveDocument.
+ *
+ * @property {boolean} [recursive=false] - Also copy every descendant subcollection of the document
+ * @property {boolean} [overwrite=false] - Replace target documents that already exist instead of failing
+ */
+export interface CopyOptions {
+  recursive?: boolean;
+  overwrite?: boolean;
+}
+
+/**
+ * Resolves the target of a copy: a full document path, or a new ID in the source's collection.
+ *
+ * @param {string} sourcePath - The normalized source document path
+ * @param {string} target - A document path or a document ID
+ * @returns {string} The normalized target document path
+ * @private
+ */
+function resolveTargetPath(sourcePath: string, target: string): string {
+  if (target && !target.includes('/')) {
+    return [...splitPath(sourcePath).slice(0, -1), target].join('/');
+  }
+  return normalizeDocumentPath(target);
+}
+
+/**
+ * Reads a document and, when recursive, every document in its descendant subcollections.
+ * Documents that do not exist but have subcollections are traversed as well.
+ *
+ * @param {DocumentReference} source - The document to read
+ * @param {boolean} recursive - Read the descendant subcollections
+ * @returns {Promise<Array<DocumentSnapshot>>} The snapshots of the existing documents
+ * @private
+ */
+async function readTree(source: DocumentReference, recursive: boolean): Promise<DocumentSnapshot[]> {
+  const root = await source.get();
+  const snapshots = root.exists ? [root] : [];
+  if (!recursive) {
+    return snapshots;
+  }
+
+  const pending = await source.listCollections();
+  while (pending.length > 0) {
+    const collectionRef = pending.shift()!;
+
+    // listDocuments() also returns missing parent documents that only hold subcollections
+    const docRefs = await collectionRef.listDocuments();
+    if (docRefs.length > 0) {
+      snapshots.push(...(await source.firestore.getAll(...docRefs)).filter(snapshot => snapshot.exists));
+    }
+    for (const docRef of docRefs) {
+      pending.push(...await docRef.listCollections());
+    }
+  }
+  return snapshots;
+}
+
+/**
+ * Copies a value, pointing references to copied documents at their copies.
+ *
+ * @param {any} value - The value read from Firestore
+ * @param {Firestore} firestore - The Firestore instance
+ * @param {Function} mapPath - Returns the copy of a document path, or null if it is not copied
+ * @param {Object} counter - Counts the rewritten references
+ * @returns {any} The value with references rewritten
+ * @private
+ */
+function rewriteReferences(value: any, firestore: Firestore, mapPath: (path: string) => string | null, counter: { references: number }): any {
+  switch (getValueType(value)) {
+    case 'reference': {
+      const targetPath = mapPath((value as DocumentReference).path);
+      if (!targetPath) {
+        return value;
+      }
+      counter.references++;
+      return firestore.doc(targetPath);
+    }
+    case 'array':
+      return value.map((element: any) => rewriteReferences(element, firestore, mapPath, counter));
+    case 'map':
+      return Object.fromEntries(Object.entries(value).map(([key, field]) => [key, rewriteReferences(field, firestore, mapPath, counter)]));
+    default:
+      return value;
+  }
+}
+
+/**
+ * A source document and the copy to write.
+ * @private
+ */
+interface DocumentCopy {
+  snapshot: DocumentSnapshot;
+  path: string;
+  data: FirebaseFirestore.DocumentData;
+}
+
+/**
+ * Queues one write per copy on a new BulkWriter and waits for all of them, collecting failures.
+ *
+ * @param {Firestore} db - The Firestore instance
+ * @param {Array<DocumentCopy>} copies - The copies to write
+ * @param {Function} queue - Queues the write for one copy and returns its result
+ * @param {Function} failedPath - Returns the document path to report when the write fails
+ * @param {Array<Object>} failures - Receives the path and error of each failed write
+ * @param {Function} report - Called once per processed write
+ * @private
+ */
+async function writeEach(
+  db: Firestore,
+  copies: DocumentCopy[],
+  queue: (bulkWriter: BulkWriter, copy: DocumentCopy) => Promise<unknown>,
+  failedPath: (copy: DocumentCopy) => string,
+  failures: Array<{ path: string, error: string }>,
+  report: () => void
+) {
+  const bulkWriter = db.bulkWriter();
+  const writes = copies.map(copy => queue(bulkWriter, copy)
+    .then(report)
+    .catch((writeError: Error) => {
+      failures.push({ path: failedPath(copy), error: writeError.message });
+      report();
+    }));
+  await bulkWriter.close();
+  await Promise.all(writes);
+}
+
+/**
+ * Copies a document tree and, for a move, deletes the source documents once every copy is written.
+ *
+ * @param {Firestore} db - The Firestore instance
+ * @param {string} sourcePath - The source document path
+ * @param {string} targetPath - The target document path or ID
+ * @param {CopyOptions} options - Recursive and overwrite options
+ * @param {boolean} move - Delete the source documents after copying them
+ * @param {ProgressCallback|undefined} onProgress - Called with the number of writes processed
+ * @returns {Promise<Object>} The copy report
+ * @private
+ */
+async function copyTree(db: Firestore, sourcePath: string, targetPath: string, options: CopyOptions, move: boolean, onProgress: ProgressCallback | undefined) {
+  // Resolve the paths, refusing copies into the copied subtree
+  const source = normalizeDocumentPath(sourcePath);
+  const target = resolveTargetPath(source, targetPath);
+  const recursive = !!options.recursive;
+  if (target === source) {
+    throw new Error(`The target '${target}' is the source document`);
+  }
+  if (recursive && target.startsWith(`${source}/`)) {
+    throw new Error(`Cannot copy '${source}' recursively into its own subtree '${target}'`);
+  }
+  const mapPath = (path: string) => {
+    if (path === source) {
+      return target;
+    }
+    return recursive && path.startsWith(`${source}/`) ? target + path.slice(source.length) : null;
+  };
+
+  // Read the source documents and prepare their copies
+  const snapshots = await readTree(db.doc(source), recursive);
+  if (snapshots.length === 0) {
+    throw new Error(recursive ? `Document '${source}' does not exist and has no subcollections` : `Document '${source}' does not exist`);
+  }
+  const counter = { references: 0 };
+  const copies: DocumentCopy[] = snapshots.map(snapshot => ({
+    snapshot,
+    path: mapPath(snapshot.ref.path)!,
+    data: rewriteReferences(snapshot.data(), db, mapPath, counter)
+  }));
+
+  // Refuse to replace existing documents unless overwriting
+  if (!options.overwrite) {
+    const existing = (await db.getAll(...copies.map(copy => db.doc(copy.path)))).filter(snapshot => snapshot.exists);
+    if (existing.length > 0) {
+      throw new Error(`${existing.length} target document${existing.length === 1 ? '' : 's'} already exist${existing.length === 1 ? 's' : ''}, e.g. '${existing[0].ref.path}'; set overwrite to replace them`);
+    }
+  }
+
+  // Validate the copies against the schemas registered for their new paths
+  checkWrites(copies
+    .filter(copy => hasSchema(copy.path))
+    .map(copy => ({ type: 'set' as const, path: copy.path, data: encodeDocument(copy.data) })), new Map());
+
+  // Write the copies, collecting failures per document
+  const total = copies.length * (move ? 2 : 1);
+  let processed = 0;
+  const report = () => {
+    processed++;
+    if (onProgress && (processed % 100 === 0 || processed === total)) {
+      onProgress(processed, total);
+    }
+  };
+  const failures: Array<{ path: string, error: string }> = [];
+  await writeEach(db, copies, (bulkWriter, copy) => options.overwrite
+    ? bulkWriter.set(db.doc(copy.path), copy.data)
+    : bulkWriter.create(db.doc(copy.path), copy.data), copy => copy.path, failures, report);
+  const copied = copies.length - failures.length;
+
+  // Delete the sources only once every copy is written, unless they changed since they were read
+  let deleted = 0;
+  if (move && failures.length === 0) {
+    await writeEach(db, copies, (bulkWriter, copy) => bulkWriter.delete(copy.snapshot.ref, { lastUpdateTime: copy.snapshot.updateTime }), copy => copy.snapshot.ref.path, failures, report);
+    deleted = copies.length - failures.length;
+  }
+
+  // List the first failures in path order
+  failures.sort((a, b) => a.path.localeCompare(b.path));
+  return {
+    source,
+    target,
+    url: getConsoleUrl(target, db.databaseId),
+    documents: copies.length,
+    copied,
+    referencesRewritten: counter.references,
+    ...(move ? { deleted, sourceDeleted: deleted === copies.length } : {}),
+    failed: failures.length,
+    failures: failures.slice(0, MAX_REPORTED_FAILURES),
+    ...(failures.length > MAX_REPORTED_FAILURES ? { failuresTruncated: true } : {})
+  };
+}
+
+/**
+ * Copies a document to a new path or ID, optionally with all of its descendant subcollections.
+ * Reference fields pointing at a copied document are rewritten to point at its copy. Target
+ * documents that already exist cause the copy to fail unless overwrite is set.
+ *
+ * @param {string} sourcePath - The document to copy, e.g. 'users/alice'
+ * @param {string} targetPath - The target document path, e.g. 'archive/alice', or a new ID in the same collection
+ * @param {CopyOptions} [options={}] - Recursive and overwrite options
+ * @param {ProgressCallback} [onProgress] - Called with the number of documents processed
+ * @param {string} [database] - Firestore database ID; defaults to the server's default database
+ * @returns {Promise<Object>} MCP-formatted response with the number of documents copied, references rewritten and failures
+ * @throws {Error} If Firebase is not initialized or if there's a Firestore error
+ *
+ * @example
+ * // Copy a project with its tasks and comments to a template
+ * const result = await copyDocument('projects/p1', 'templates/onboarding', { recursive: true });
+ */
+export async function copyDocument(sourcePath: string, targetPath: string, options: CopyOptions = {}, onProgress?: ProgressCallback, database?: string) {
+  try {
+    // Check if Firebase is initialized
+    const db = getFirestore(database);
+    if (!db) {
+      return { content: [{ type: 'text', text: 'Firebase is not initialized. SERVICE_ACCOUNT_KEY_PATH environment variable is required.' }], isError: true };
+    }
+
+    // Copy the document tree
+    const result = await copyTree(db, sourcePath, targetPath, options, false, onProgress);
+
+    // Format response for MCP
+    return { content: [{ type: 'text', text: JSON.stringify(result) }] };
+  } catch (error) {
+    return { content: writeErrorContent(error, 'copying document'), isError: true };
+  }
+}
+
+/**
+ * Moves or renames a document, optionally with all of its descendant subcollections. The
+ * documents are copied first, with references between them rewritten, and the source
+ * documents are deleted only after every copy has been written. If any copy fails, the source
+ * is left in place. Source documents changed after they were copied are not deleted and are
+ * reported as failures.
+ *
+ * @param {string} sourcePath - The document to move, e.g. 'users/alice'
+ * @param {string} targetPath - The target document path, or a new ID in the same collection to rename it
+ * @param {CopyOptions} [options={}] - Recursive and overwrite options
+ * @param {ProgressCallback} [onProgress] - Called with the number of writes processed
+ * @param {string} [database] - Firestore database ID; defaults to the server's default database
+ * @returns {Promise<Object>} MCP-formatted response with the number of documents copied and deleted and the failures
+ * @throws {Error} If Firebase is not initialized or if there's a Firestore error
+ *
+ * @example
+ * // Rename a user document, keeping its subcollections
+ * const result = await moveDocument('users/alice', 'alice-smith', { recursive: true });
+ */
+export async function moveDocument(sourcePath: string, targetPath: string, options: CopyOptions = {}, onProgress?: ProgressCallback, database?: string) {
+  try {
+    // Check if Firebase is initialized
+    const db = getFirestore(database);
+    if (!db) {
+      return { content: [{ type: 'text', text: 'Firebase is not initialized. SERVICE_ACCOUNT_KEY_PATH environment variable is required.' }], isError: true };
+    }
+
+    // Copy the document tree, then delete the source
+    const result = await copyTree(db, sourcePath, targetPath, options, true, onProgress);
+
+    // Format response for MCP
+    return { content: [{ type: 'text', text: JSON.stringify(result) }] };
+  } catch (error) {
+    return { content: writeErrorContent(error, 'moving document'), isError: true };
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * Firestore Document Diffs
+ *
+ * This module compares two versions of a document field by field. Nested maps are walked
+ * and reported with dotted field paths; every other value, including arrays, is compared
+ * as a whole. Values are compared and reported in the typed JSON encoding.
+ *
+ * @module firebase-mcp/firestore-diff
+ */
+
+import { encodeDocument } from './firestoreCodec';
+
+/**
+ * A field-level difference between two versions of a document.
+ */
+export interface DocumentDiff {
+  added: Array<{ path: string, value: any }>;
+  removed: Array<{ path: string, value: any }>;
+  changed: Array<{ path: string, before: any, after: any }>;
+}
+
+/**
+ * Checks whether an encoded value is a plain map rather than a typed value or array.
+ *
+ * @param {any} value - The encoded value
+ * @returns {boolean} True if the value is a map that should be walked field by field
+ * @private
+ */
+function isMap(value: any): boolean {
+  return value !== null && typeof value === 'object' && !Array.isArray(value) &&
+    (value.__type === undefined || value.__type === 'map');
+}
+
+/**
+ * Returns the fields of an encoded map, unwrapping maps escaped because of a literal '__type' key.
+ *
+ * @param {Record<string, any>} value - The encoded map
+ * @returns {Record<string, any>} The map fields
+ * @private
+ */
+function mapFields(value: Record<string, any>): Record<string, any> {
+  return value.__type === 'map' ? value.value : value;
+}
+
+/**
+ * Compares two encoded values for deep equality, ignoring map key order.
+ *
+ * @param {any} a - The first encoded value
+ * @param {any} b - The second encoded value
+ * @returns {boolean} True if both values are equal
+ * @private
+ */
+function isEqual(a: any, b: any): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  return keysA.length === keysB.length && keysA.every(key => key in b && isEqual(a[key], b[key]));
+}
+
+/**
+ * Walks two encoded maps and records the differences under the given path prefix.
+ *
+ * @param {Record<string, any>} before - The fields before the change
+ * @param {Record<string, any>} after - The fields after the change
+ * @param {string} prefix - Dotted path of the enclosing map, or '' at the top level
+ * @param {DocumentDiff} diff - The diff being built
+ * @private
+ */
+function diffMaps(before: Record<string, any>, after: Record<string, any>, prefix: string, diff: DocumentDiff) {
+  const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+  for (const key of keys) {
+    const fieldPath = prefix ? `${prefix}.${key}` : key;
+    if (!(key in after)) {
+      diff.removed.push({ path: fieldPath, value: before[key] });
+    } else if (!(key in before)) {
+      diff.added.push({ path: fieldPath, value: after[key] });
+    } else if (isMap(before[key]) && isMap(after[key])) {
+      diffMaps(mapFields(before[key]), mapFields(after[key]), fieldPath, diff);
+    } else if (!isEqual(before[key], after[key])) {
+      diff.changed.push({ path: fieldPath, before: before[key], after: after[key] });
+    }
+  }
+}
+
+/**
+ * Computes the field-level difference between two versions of a document.
+ * A missing document counts as having no fields, so creating a document reports every
+ * field as added and deleting it reports every field as removed.
+ *
+ * @param {FirebaseFirestore.DocumentData|undefined} before - The document data before the change
+ * @param {FirebaseFirestore.DocumentData|undefined} after - The document data after the change
+ * @returns {DocumentDiff} The added, removed and changed field paths with encoded values
+ *
+ * @example
+ * diffDocuments({ name: 'Ada', address: { city: 'London' } }, { name: 'Ada', address: { city: 'Paris' }, age: 36 });
+ * // => {
+ * //   added: [{ path: 'age', value: 36 }],
+ * //   removed: [],
+ * //   changed: [{ path: 'address.city', before: 'London', after: 'Paris' }]
+ * // }
+ */
+export function diffDocuments(before: FirebaseFirestore.DocumentData | undefined, after: FirebaseFirestore.DocumentData | undefined): DocumentDiff {
+  const diff: DocumentDiff = { added: [], removed: [], changed: [] };
+  diffMaps(encodeDocument(before) || {}, encodeDocument(after) || {}, '', diff);
+  return diff;
+}
@@ -0,0 +1,145 @@
+/**
+ * Firestore Query Explain
+ *
+ * This module runs queries with Firestore's query explain option and reports how they were
+ * executed: the indexes used, how many index entries and documents were scanned compared to
+ * the documents returned, the read operations billed and the execution time. Planning only
+ * (analyze disabled) reports the indexes without running the query or billing any reads.
+ * All exported tool functions return data in a format compatible with the MCP protocol response structure.
+ *
+ * @module firebase-mcp/firestore-explain
+ */
+
+import { getFirestore } from './firebaseConfig';
+import { queryErrorContent } from './firestoreIndexes';
+import { normalizeCollectionPath } from './firestorePaths';
+import { applyQueryOptions, FilterSpec, QueryOptions } from './firestoreQuery';
+
+/** Index entries or documents scanned per returned document above which a scan is reported as inefficient */
+const SCAN_RATIO_WARNING = 10;
+
+/**
+ * How a query was executed, as reported by query explain.
+ */
+export interface QueryExplanation {
+  /** The indexes used, e.g. { queryScope: 'Collection', properties: '(status ASC, __name__ ASC)' } */
+  indexesUsed: Array<{ queryScope?: string, properties?: string }>;
+  /** Execution statistics; only present when the query was analyzed */
+  execution?: {
+    resultsReturned: number;
+    documentsScanned: number;
+    indexEntriesScanned: number;
+    readOperations: number;
+    executionTimeMs: number;
+    billing: Record<string, number>;
+  };
+  /** Observations about why the query may be slow or expensive */
+  notes: string[];
+}
+
+/**
+ * Converts the snake_case keys and numeric strings of explain debug statistics.
+ *
+ * @param {Record<string, unknown>} stats - Statistics as returned by Firestore
+ * @returns {Record<string, number>} The statistics with camelCase keys and numeric values
+ * @private
+ */
+function toNumbers(stats: Record<string, unknown> = {}): Record<string, number> {
+  return Object.fromEntries(Object.entries(stats)
+    .filter(([, value]) => value !== null && typeof value !== 'object')
+    .map(([key, value]) => [key.replace(/_([a-z])/g, (_, letter) => letter.toUpperCase()), Number(value)]));
+}
+
+/**
+ * Formats the metrics returned by query explain.
+ *
+ * @param {FirebaseFirestore.ExplainMetrics} metrics - The metrics of an explained query
+ * @returns {QueryExplanation} The indexes used, execution statistics and observations
+ *
+ * @example
+ * const { metrics } = await query.explain({ analyze: true });
+ * formatExplainMetrics(metrics);
+ * // => { indexesUsed: [...], execution: { resultsReturned: 20, documentsScanned: 20, ... }, notes: [] }
+ */
+export function formatExplainMetrics(metrics: FirebaseFirestore.ExplainMetrics): QueryExplanation {
+  const indexesUsed = metrics.planSummary.indexesUsed.map(index => ({
+    queryScope: index.query_scope as string | undefined,
+    properties: index.properties as string | undefined
+  }));
+  const stats = metrics.executionStats;
+  if (!stats) {
+    return { indexesUsed, notes: [] };
+  }
+
+  const debugStats = toNumbers(stats.debugStats);
+  const execution = {
+    resultsReturned: stats.resultsReturned,
+    documentsScanned: debugStats.documentsScanned || 0,
+    indexEntriesScanned: debugStats.indexEntriesScanned || 0,
+    readOperations: stats.readOperations,
+    executionTimeMs: stats.executionDuration.seconds * 1000 + stats.executionDuration.nanoseconds / 1e6,
+    billing: toNumbers(stats.debugStats.billing_details as Record<string, unknown> | undefined)
+  };
+
+  // Point out scans that are much larger than the result
+  const notes: string[] = [];
+  const returned = Math.max(execution.resultsReturned, 1);
+  if (execution.indexEntriesScanned > returned * SCAN_RATIO_WARNING) {
+    notes.push(`Scanned ${execution.indexEntriesScanned} index entries for ${execution.resultsReturned} results; a composite index whose fields match the equality filters, then the inequality and ordering fields, would narrow the scan`);
+  }
+  if (execution.documentsScanned > returned * SCAN_RATIO_WARNING) {
+    notes.push(`Read ${execution.documentsScanned} documents for ${execution.resultsReturned} results; the filters are applied after reading documents instead of by an index`);
+  }
+  if (execution.resultsReturned === 0 && execution.readOperations > 0) {
+    notes.push('Queries that return no documents are still billed a minimum of one read');
+  }
+
+  return { indexesUsed, execution, notes };
+}
+
+/**
+ * Explains a query on a collection or collection group without returning its documents.
+ * By default the query is executed (and billed) to collect execution statistics; with
+ * analyze disabled only the plan is returned.
+ *
+ * @param {string} collection - The collection path, or the collection ID when collectionGroup is set
+ * @param {Array<FilterSpec>} [filters=[]] - Filter conditions, in the format used by listDocuments
+ * @param {number} [limit=20] - Maximum number of documents the query returns
+ * @param {QueryOptions} [options={}] - Ordering, cursor bounds and field mask
+ * @param {boolean} [analyze=true] - Execute the query to collect execution statistics
+ * @param {boolean} [collectionGroup=false] - Query every collection with this ID
+ * @param {string} [database] - Firestore database ID; defaults to the server's default database
+ * @returns {Promise<Object>} MCP-formatted response with the indexes used, execution statistics and observations
+ * @throws {Error} If Firebase is not initialized or if there's a Firestore error
+ *
+ * @example
+ * // Why is this query slow?
+ * const explanation = await explainQuery('orders', [
+ *   { field: 'status', operator: '==', value: 'open' },
+ *   { field: 'total', operator: '>', value: 100 }
+ * ], 50);
+ */
+export async function explainQuery(collection: string, filters: FilterSpec[] = [], limit: number = 20, options: QueryOptions = {}, analyze: boolean = true, collectionGroup: boolean = false, database?: string) {
+  try {
+    // Check if Firebase is initialized
+    const db = getFirestore(database);
+    if (!db) {
+      return { content: [{ type: 'text', text: 'Firebase is not initialized. SERVICE_ACCOUNT_KEY_PATH environment variable is required.' }], isError: true };
+    }
+
+    // Build the query the same way listDocuments does
+    if (collectionGroup && (!collection || collection.includes('/'))) {
+      throw new Error(`Invalid collection ID '${collection}': collection group queries take a collection ID without slashes`);
+    }
+    const source = collectionGroup ? db.collectionGroup(collection) : db.collection(normalizeCollectionPath(collection));
+    const query = applyQueryOptions(source, filters, options).limit(limit);
+
+    // Explain the query, discarding its results
+    const { metrics } = await query.explain({ analyze });
+
+    // Format response for MCP
+    return { content: [{ type: 'text', text: JSON.stringify({ analyzed: analyze, ...formatExplainMetrics(metrics) }) }] };
+  } catch (error) {
+    return { content: queryErrorContent(error, 'explaining query'), isError: true };
+  }
+}
@@ -0,0 +1,262 @@
+/**
+ * Firestore Index Detection
+ *
+ * This module recognizes queries that fail because a composite index is missing. Firestore
+ * reports these as FAILED_PRECONDITION errors with a console link whose `create_composite`
+ * parameter holds the required index as an encoded protocol buffer. The index is decoded into
+ * the format of `firestore.indexes.json`, remembered for the session per database and can be
+ * written to an index file for deployment with the Firebase CLI.
+ * All exported tool functions return data in a format compatible with the MCP protocol response structure.
+ *
+ * @module firebase-mcp/firestore-indexes
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { getDatabaseId } from './firebaseConfig';
+
+/**
+ * A field of a composite index, as written in firestore.indexes.json.
+ */
+export interface IndexField {
+  fieldPath: string;
+  order?: 'ASCENDING' | 'DESCENDING';
+  arrayConfig?: 'CONTAINS';
+  vectorConfig?: { dimension: number, flat: Record<string, never> };
+}
+
+/**
+ * A composite index, as written in firestore.indexes.json.
+ */
+export interface IndexDefinition {
+  collectionGroup: string;
+  queryScope: 'COLLECTION' | 'COLLECTION_GROUP';
+  fields: IndexField[];
+}
+
+/**
+ * A missing index parsed from a query error.
+ */
+export interface MissingIndex {
+  index: IndexDefinition;
+  /** ID of the database the index is missing in */
+  database: string;
+  createIndexUrl: string;
+}
+
+/** gRPC status code of FAILED_PRECONDITION errors */
+const FAILED_PRECONDITION = 9;
+
+/** Indexes reported missing during this session per database ID, keyed by their canonical JSON */
+const missingIndexes = new Map<string, Map<string, IndexDefinition>>();
+
+/**
+ * A field read from an encoded protocol buffer message.
+ * @private
+ */
+interface ProtoField {
+  number: number;
+  value: number | Buffer;
+}
+
+/**
+ * Reads a base-128 varint from a buffer.
+ *
+ * @param {Buffer} buffer - The encoded message
+ * @param {number} offset - Position of the varint
+ * @returns {Array<number>} The value and the position after it
+ * @private
+ */
+function readVarint(buffer: Buffer, offset: number): [number, number] {
+  let value = 0;
+  let shift = 0;
+  let position = offset;
+  while (position < buffer.length) {
+    const byte = buffer[position++];
+    value += (byte & 0x7f) * 2 ** shift;
+    if ((byte & 0x80) === 0) {
+      return [value, position];
+    }
+    shift += 7;
+  }
+  throw new Error('Truncated varint');
+}
+
+/**
+ * Splits an encoded protocol buffer message into its varint and length-delimited fields.
+ *
+ * @param {Buffer} buffer - The encoded message
+ * @returns {Array<ProtoField>} The fields in encoded order
+ * @throws {Error} If the message uses wire types an index never contains
+ * @private
+ */
+function readMessage(buffer: Buffer): ProtoField[] {
+  const fields: ProtoField[] = [];
+  let position = 0;
+  while (position < buffer.length) {
+    const [key, afterKey] = readVarint(buffer, position);
+    const number = Math.floor(key / 8);
+    const wireType = key % 8;
+    if (wireType === 0) {
+      const [value, next] = readVarint(buffer, afterKey);
+      fields.push({ number, value });
+      position = next;
+    } else if (wireType === 2) {
+      const [length, start] = readVarint(buffer, afterKey);
+      fields.push({ number, value: buffer.subarray(start, start + length) });
+      position = start + length;
+    } else {
+      throw new Error(`Unsupported wire type ${wireType}`);
+    }
+  }
+  return fields;
+}
+
+/**
+ * Decodes the `google.firestore.admin.v1.Index` message carried by a console index link.
+ *
+ * @param {Buffer} buffer - The encoded index
+ * @returns {Object} The index in firestore.indexes.json format and the ID of its database
+ * @throws {Error} If the message is not a valid index
+ * @private
+ */
+function decodeIndex(buffer: Buffer): { index: IndexDefinition, database: string } {
+  const index: IndexDefinition = { collectionGroup: '', queryScope: 'COLLECTION', fields: [] };
+  let database = '';
+  for (const field of readMessage(buffer)) {
+    if (field.number === 1 && Buffer.isBuffer(field.value)) {
+      // projects/{project}/databases/{database}/collectionGroups/{collection}/indexes/{id}
+      const match = /\/databases\/([^/]+)\/collectionGroups\/([^/]+)/.exec(field.value.toString('utf8'));
+      database = match ? match[1] : '';
+      index.collectionGroup = match ? match[2] : '';
+    } else if (field.number === 2) {
+      index.queryScope = field.value === 2 ? 'COLLECTION_GROUP' : 'COLLECTION';
+    } else if (field.number === 3 && Buffer.isBuffer(field.value)) {
+      const indexField: IndexField = { fieldPath: '' };
+      for (const part of readMessage(field.value)) {
+        if (part.number === 1 && Buffer.isBuffer(part.value)) {
+          indexField.fieldPath = part.value.toString('utf8');
+        } else if (part.number === 2) {
+          indexField.order = part.value === 2 ? 'DESCENDING' : 'ASCENDING';
+        } else if (part.number === 3) {
+          indexField.arrayConfig = 'CONTAINS';
+        } else if (part.number === 4 && Buffer.isBuffer(part.value)) {
+          const dimension = readMessage(part.value).find(config => config.number === 1);
+          indexField.vectorConfig = { dimension: (dimension?.value as number) || 0, flat: {} };
+        }
+      }
+      index.fields.push(indexField);
+    }
+  }
+  if (!index.collectionGroup || index.fields.length === 0 || index.fields.some(field => !field.fieldPath)) {
+    throw new Error('Invalid index definition');
+  }
+  return { index, database };
+}
+
+/**
+ * Parses the missing index from a query error, if that is why the query failed.
+ *
+ * @param {any} error - The error thrown by the query
+ * @returns {MissingIndex|null} The required index, its database and its console creation link, or null for other errors
+ *
+ * @example
+ * try {
+ *   await query.get();
+ * } catch (error) {
+ *   const missing = parseMissingIndexError(error);
+ *   // => { index: { collectionGroup: 'orders', queryScope: 'COLLECTION', fields: [...] }, database: '(default)', createIndexUrl: 'https://...' }
+ * }
+ */
+export function parseMissingIndexError(error: any): MissingIndex | null {
+  const message = error instanceof Error ? error.message : String(error);
+  if (error?.code !== FAILED_PRECONDITION && !message.includes('FAILED_PRECONDITION')) {
+    return null;
+  }
+  const link = /https:\/\/console\.firebase\.google\.com\/\S*create_composite=([^&\s]+)/.exec(message);
+  if (!link) {
+    return null;
+  }
+  try {
+    const { index, database } = decodeIndex(Buffer.from(decodeURIComponent(link[1]), 'base64'));
+    return { index, database, createIndexUrl: link[0] };
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Formats a query error as the content of an MCP error response. Missing index errors are
+ * returned as structured JSON with the required index and the console link to create it,
+ * and the index is remembered for generateIndexes under the database it is missing in.
+ *
+ * @param {any} error - The error thrown by the query
+ * @param {string} action - What failed, e.g. 'listing documents'
+ * @returns {Array<Object>} MCP content describing the error
+ *
+ * @example
+ * return { content: queryErrorContent(error, 'listing documents'), isError: true };
+ */
+export function queryErrorContent(error: any, action: string) {
+  const missing = parseMissingIndexError(error);
+  if (!missing) {
+    return [{ type: 'text', text: `Error ${action}: ${(error as Error).message}` }];
+  }
+
+  const databaseIndexes = missingIndexes.get(missing.database) || new Map<string, IndexDefinition>();
+  databaseIndexes.set(JSON.stringify(missing.index), missing.index);
+  missingIndexes.set(missing.database, databaseIndexes);
+  return [{
+    type: 'text',
+    text: JSON.stringify({
+      error: `Error ${action}: the query requires a composite index that does not exist`,
+      missingIndex: missing.index,
+      createIndexUrl: missing.createIndexUrl
+    })
+  }];
+}
+
+/**
+ * Writes the indexes reported missing in a database during this session to a
+ * firestore.indexes.json file. An existing file is merged: its indexes and field overrides are
+ * kept and only indexes it does not contain yet are added. Index files are deployed per
+ * database, so each database needs its own file.
+ *
+ * @param {string} [outputPath='firestore.indexes.json'] - Path of the index file
+ * @param {string} [database] - Firestore database ID; defaults to the server's default database
+ * @returns {Promise<Object>} MCP-formatted response with the file path, the added indexes and the total count
+ * @throws {Error} If the existing file is not valid JSON or cannot be written
+ *
+ * @example
+ * // After a query failed with a missing index
+ * const result = await generateIndexes('./firestore.indexes.json');
+ * // Deploy with: firebase deploy --only firestore:indexes
+ */
+export async function generateIndexes(outputPath: string = 'firestore.indexes.json', database?: string) {
+  try {
+    // Load the existing index file, if any
+    const file = path.resolve(outputPath);
+    let config: { indexes: IndexDefinition[], fieldOverrides: any[] } = { indexes: [], fieldOverrides: [] };
+    if (fs.existsSync(file)) {
+      const existing = JSON.parse(await fs.promises.readFile(file, 'utf8'));
+      config = { ...existing, indexes: existing.indexes || [], fieldOverrides: existing.fieldOverrides || [] };
+    }
+
+    // Add the missing indexes the file does not contain yet
+    const known = new Set(config.indexes.map(index => JSON.stringify({
+      collectionGroup: index.collectionGroup,
+      queryScope: index.queryScope,
+      fields: index.fields
+    })));
+    const databaseIndexes = missingIndexes.get(getDatabaseId(database)) || new Map<string, IndexDefinition>();
+    const added = [...databaseIndexes.entries()].filter(([key]) => !known.has(key)).map(([, index]) => index);
+    config.indexes.push(...added);
+
+    await fs.promises.writeFile(file, `${JSON.stringify(config, null, 2)}\n`);
+
+    // Format response for MCP
+    return { content: [{ type: 'text', text: JSON.stringify({ file, database: getDatabaseId(database), added, total: config.indexes.length }) }] };
+  } catch (error) {
+    return { content: [{ type: 'text', text: `Error generating indexes: ${(error as Error).message}` }], isError: true };
+  }
+}
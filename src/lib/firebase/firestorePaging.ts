@@ -0,0 +1,207 @@
+/**
+ * Firestore Cursor Pagination
+ *
+ * This module implements opaque page tokens for queries. A token records the values of the
+ * last returned document for every field the query is ordered by, including the implicit
+ * ordering Firestore applies for inequality filters and the document name, so the next page
+ * starts exactly after it even if that document has since been changed or deleted.
+ * Tokens also carry a fingerprint of the query they were issued for and are rejected when
+ * used with a different query.
+ *
+ * @module firebase-mcp/firestore-paging
+ */
+
+import { DocumentSnapshot, FieldPath, Firestore, Query } from 'firebase-admin/firestore';
+import { createHash } from 'crypto';
+import { decodeValue, encodeValue } from './firestoreCodec';
+import { FilterSpec, OrderBySpec, QueryOptions } from './firestoreQuery';
+
+/** Version of the page token format */
+const PAGE_TOKEN_VERSION = 1;
+
+/** Operators Firestore treats as inequalities, which add implicit ordering */
+const INEQUALITY_OPERATORS = ['<', '<=', '>', '>=', '!=', 'not-in'];
+
+/** Field path Firestore uses for the document name */
+const DOCUMENT_NAME_FIELD = '__name__';
+
+/**
+ * Computes a short fingerprint of a query, used to bind page tokens to it.
+ * The limit and field mask are not part of the fingerprint, so they may change between pages.
+ *
+ * @param {string} target - What is queried, e.g. a collection path or collection group ID
+ * @param {Array<FilterSpec>} [filters=[]] - The query filters
+ * @param {QueryOptions} [options={}] - The ordering and cursor options
+ * @returns {string} The fingerprint
+ */
+export function queryFingerprint(target: string, filters: FilterSpec[] = [], options: QueryOptions = {}): string {
+  const { orderBy, startAt, endBefore } = options;
+  return createHash('sha256')
+    .update(JSON.stringify({ target, filters, orderBy, startAt, endBefore }))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+/**
+ * Encodes a page token.
+ *
+ * @param {string} fingerprint - Fingerprint of the query the token belongs to
+ * @param {Array<any>} cursor - Cursor values in typed JSON encoding
+ * @returns {string} The opaque page token
+ */
+export function encodePageToken(fingerprint: string, cursor: any[]): string {
+  return Buffer.from(JSON.stringify({ v: PAGE_TOKEN_VERSION, q: fingerprint, c: cursor })).toString('base64url');
+}
+
+/**
+ * Decodes a page token and checks that it was issued for the same query.
+ *
+ * @param {string} token - The page token
+ * @param {string} fingerprint - Fingerprint of the query the token is used with
+ * @returns {Array<any>} The cursor values in typed JSON encoding
+ * @throws {Error} If the token is malformed or belongs to a different query
+ */
+export function decodePageToken(token: string, fingerprint: string): any[] {
+  let payload: any;
+  try {
+    payload = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+  } catch (error) {
+    throw new Error('Invalid pageToken: not a token returned by a previous page');
+  }
+  if (!payload || payload.v !== PAGE_TOKEN_VERSION || !Array.isArray(payload.c)) {
+    throw new Error('Invalid pageToken: not a token returned by a previous page');
+  }
+  if (payload.q !== fingerprint) {
+    throw new Error('Invalid pageToken: it was issued for a different query. Use the same filters and ordering as the first page');
+  }
+  return payload.c;
+}
+
+/**
+ * Collects the fields of inequality conditions, including those nested in and/or groups.
+ *
+ * @param {Array<FilterSpec>} filters - The query filters
+ * @param {Set<string>} fields - Receives the field paths
+ * @private
+ */
+function collectInequalityFields(filters: FilterSpec[], fields: Set<string>) {
+  for (const filter of filters) {
+    if ('and' in filter && Array.isArray(filter.and)) {
+      collectInequalityFields(filter.and, fields);
+    } else if ('or' in filter && Array.isArray(filter.or)) {
+      collectInequalityFields(filter.or, fields);
+    } else if ('field' in filter && INEQUALITY_OPERATORS.includes(filter.operator)) {
+      fields.add(filter.field);
+    }
+  }
+}
+
+/**
+ * Returns the ordering Firestore applies to a query: the explicit orderBy fields, followed by
+ * inequality fields that are not explicitly ordered (in field path order) and the document name,
+ * both in the direction of the last explicit ordering.
+ *
+ * @param {Array<FilterSpec>} [filters=[]] - The query filters
+ * @param {Array<OrderBySpec>} [orderBy=[]] - The explicit ordering
+ * @returns {Array<OrderBySpec>} The full ordering, ending with the document name
+ */
+export function getEffectiveOrderBy(filters: FilterSpec[] = [], orderBy: OrderBySpec[] = []): OrderBySpec[] {
+  const direction = orderBy.length > 0 ? orderBy[orderBy.length - 1].direction || 'asc' : 'asc';
+  const ordered = new Set(orderBy.map(order => order.field));
+  const inequalityFields = new Set<string>();
+  collectInequalityFields(filters, inequalityFields);
+
+  const implicit = [...inequalityFields]
+    .filter(field => !ordered.has(field))
+    .sort()
+    .map(field => ({ field, direction }));
+  const result = [...orderBy, ...implicit];
+  if (!ordered.has(DOCUMENT_NAME_FIELD)) {
+    result.push({ field: DOCUMENT_NAME_FIELD, direction });
+  }
+  return result;
+}
+
+/**
+ * Adds the implicit part of the effective ordering to a query explicitly, so cursor values
+ * can be given for every ordered field. The results are ordered exactly as before.
+ *
+ * @param {Query} query - A query with filters and explicit ordering already applied
+ * @param {Array<OrderBySpec>} explicitOrderBy - The explicit ordering applied to the query
+ * @param {Array<OrderBySpec>} effectiveOrderBy - The ordering returned by getEffectiveOrderBy
+ * @returns {Query} The query with its full ordering applied
+ */
+export function applyEffectiveOrderBy(query: Query, explicitOrderBy: OrderBySpec[], effectiveOrderBy: OrderBySpec[]): Query {
+  let result = query;
+  for (const order of effectiveOrderBy.slice(explicitOrderBy.length)) {
+    const field = order.field === DOCUMENT_NAME_FIELD ? FieldPath.documentId() : order.field;
+    result = result.orderBy(field, order.direction || 'asc');
+  }
+  return result;
+}
+
+/**
+ * Reads the cursor values of a document for the effective ordering of a query.
+ *
+ * @param {DocumentSnapshot} doc - The last document of a page
+ * @param {Array<OrderBySpec>} effectiveOrderBy - The ordering returned by getEffectiveOrderBy
+ * @returns {Array<any>} The cursor values in typed JSON encoding
+ */
+export function getCursorValues(doc: DocumentSnapshot, effectiveOrderBy: OrderBySpec[]): any[] {
+  return effectiveOrderBy.map(order => encodeValue(order.field === DOCUMENT_NAME_FIELD ? doc.ref : doc.get(order.field)));
+}
+
+/**
+ * Decodes the cursor values of a page token for use with startAfter().
+ *
+ * @param {Array<any>} cursor - The cursor values in typed JSON encoding
+ * @param {Firestore} firestore - The Firestore instance used to build document references
+ * @returns {Array<any>} The Firestore cursor values
+ */
+export function decodeCursorValues(cursor: any[], firestore: Firestore): any[] {
+  return cursor.map(value => decodeValue(value, firestore));
+}
+
+/**
+ * Adds the ordered fields that a field mask leaves out, so their cursor values can be read.
+ *
+ * @param {Array<string>|undefined} select - The requested field mask
+ * @param {Array<OrderBySpec>} effectiveOrderBy - The ordering returned by getEffectiveOrderBy
+ * @returns {Array<string>|undefined} The field mask to query with, or undefined if there is none
+ */
+export function withCursorFields(select: string[] | undefined, effectiveOrderBy: OrderBySpec[]): string[] | undefined {
+  if (!select) {
+    return undefined;
+  }
+  const fields = effectiveOrderBy.map(order => order.field).filter(field => field !== DOCUMENT_NAME_FIELD);
+  return [...new Set([...select, ...fields])];
+}
+
+/**
+ * Keeps only the requested field paths of document data, removing fields that were only
+ * read for the cursor.
+ *
+ * @param {FirebaseFirestore.DocumentData} data - The document data
+ * @param {Array<string>} select - Dotted field paths to keep
+ * @returns {FirebaseFirestore.DocumentData} The projected data
+ */
+export function projectFields(data: FirebaseFirestore.DocumentData, select: string[]): FirebaseFirestore.DocumentData {
+  const result: FirebaseFirestore.DocumentData = {};
+  for (const fieldPath of select) {
+    const segments = fieldPath.split('.');
+    let source: any = data;
+    for (const segment of segments) {
+      source = source !== null && typeof source === 'object' ? source[segment] : undefined;
+    }
+    if (source === undefined) {
+      continue;
+    }
+    let target = result;
+    for (const segment of segments.slice(0, -1)) {
+      target[segment] = target[segment] || {};
+      target = target[segment];
+    }
+    target[segments[segments.length - 1]] = source;
+  }
+  return result;
+}
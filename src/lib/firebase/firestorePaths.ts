@@ -0,0 +1,115 @@
+/**
+ * Firestore Path Utilities
+ *
+ * This module validates slash-separated Firestore paths and builds Firebase console links
+ * for collections and documents at any depth. Collection paths have an odd number of
+ * segments (`users`, `users/u1/orders`) and document paths an even number
+ * (`users/u1`, `users/u1/orders/o9`).
+ *
+ * @module firebase-mcp/firestore-paths
+ */
+
+import { getDatabaseId, getProjectId } from './firebaseConfig';
+
+/**
+ * Splits a slash-separated path into its segments, ignoring leading and trailing slashes.
+ *
+ * @param {string} path - The path to split
+ * @returns {Array<string>} The path segments
+ * @throws {Error} If the path is empty or contains empty segments
+ *
+ * @example
+ * splitPath('/users/u1/orders/');
+ * // => ['users', 'u1', 'orders']
+ */
+export function splitPath(path: string): string[] {
+  if (typeof path !== 'string' || path.replace(/^\/+|\/+$/g, '') === '') {
+    throw new Error('Invalid path: a non-empty path is required');
+  }
+  const segments = path.replace(/^\/+|\/+$/g, '').split('/');
+  if (segments.some(segment => segment === '')) {
+    throw new Error(`Invalid path '${path}': paths cannot contain empty segments ('//')`);
+  }
+  return segments;
+}
+
+/**
+ * Validates and normalizes a collection path.
+ *
+ * @param {string} path - A collection path such as 'users' or 'users/u1/orders'
+ * @returns {string} The normalized collection path
+ * @throws {Error} If the path does not point to a collection
+ */
+export function normalizeCollectionPath(path: string): string {
+  const segments = splitPath(path);
+  if (segments.length % 2 === 0) {
+    throw new Error(`Invalid collection path '${path}': collection paths have an odd number of segments (e.g. 'users' or 'users/u1/orders'), got ${segments.length}`);
+  }
+  return segments.join('/');
+}
+
+/**
+ * Validates and normalizes a document path.
+ *
+ * @param {string} path - A document path such as 'users/u1' or 'users/u1/orders/o9'
+ * @returns {string} The normalized document path
+ * @throws {Error} If the path does not point to a document
+ */
+export function normalizeDocumentPath(path: string): string {
+  const segments = splitPath(path);
+  if (segments.length % 2 !== 0) {
+    throw new Error(`Invalid document path '${path}': document paths have an even number of segments (e.g. 'users/u1' or 'users/u1/orders/o9'), got ${segments.length}`);
+  }
+  return segments.join('/');
+}
+
+/**
+ * Resolves a document path from either a collection path and document ID, or a full document path.
+ *
+ * @param {string} collectionOrPath - A collection path, or a full document path when id is omitted
+ * @param {string} [id] - The document ID within the collection
+ * @returns {string} The normalized document path
+ * @throws {Error} If the resulting path does not point to a document
+ *
+ * @example
+ * resolveDocumentPath('users/u1/orders', 'o9'); // => 'users/u1/orders/o9'
+ * resolveDocumentPath('users/u1/orders/o9');    // => 'users/u1/orders/o9'
+ */
+export function resolveDocumentPath(collectionOrPath: string, id?: string): string {
+  if (id === undefined || id === null || id === '') {
+    return normalizeDocumentPath(collectionOrPath);
+  }
+  if (id.includes('/')) {
+    throw new Error(`Invalid document ID '${id}': IDs cannot contain '/'. Pass the full path instead`);
+  }
+  return normalizeDocumentPath(`${normalizeCollectionPath(collectionOrPath)}/${id}`);
+}
+
+/**
+ * Builds the Firebase console URL for a collection or document path.
+ * Path segments are encoded the way the console expects, so links work at any depth.
+ *
+ * @param {string} [path] - A collection or document path; omit for the database root
+ * @param {string} [database] - The database ID; defaults to the server's default database
+ * @returns {string} The console URL
+ *
+ * @example
+ * getConsoleUrl('users/u1/orders/o9');
+ * // => 'https://console.firebase.google.com/project/my-project/firestore/databases/-default-/data/~2Fusers~2Fu1~2Forders~2Fo9'
+ *
+ * @example
+ * getConsoleUrl('events/e1', 'analytics');
+ * // => 'https://console.firebase.google.com/project/my-project/firestore/databases/analytics/data/~2Fevents~2Fe1'
+ */
+export function getConsoleUrl(path?: string, database?: string): string {
+  const projectId = getProjectId();
+  const databaseId = getDatabaseId(database);
+  // The console addresses the (default) database as -default-
+  const consoleDatabase = databaseId === '(default)' ? '-default-' : encodeURIComponent(databaseId);
+  const baseUrl = `https://console.firebase.google.com/project/${projectId}/firestore/databases/${consoleDatabase}/data`;
+  if (!path) {
+    return baseUrl;
+  }
+  const encodedPath = splitPath(path).map(segment => `~2F${encodeURIComponent(segment)}`).join('');
+  return `${baseUrl}/${encodedPath}`;
+}
@@ -0,0 +1,230 @@
+/**
+ * Firestore Query Builder
+ *
+ * This module translates the JSON filter model accepted by the Firestore tools into
+ * Firestore queries. It supports plain field conditions, nested AND/OR filter groups,
+ * multi-field ordering, cursor bounds and aggregations.
+ *
+ * @module firebase-mcp/firestore-query
+ */
+
+import { AggregateField, AggregateSpec, Filter, Firestore, Query, WhereFilterOp } from 'firebase-admin/firestore';
+import { decodeValue } from './firestoreCodec';
+
+/**
+ * A single field comparison, e.g. `{ field: 'status', operator: '==', value: 'pending' }`.
+ */
+export interface FilterCondition {
+  field: string;
+  operator: WhereFilterOp;
+  value: any;
+}
+
+/**
+ * A group of filters combined with AND or OR. Groups can be nested to any depth.
+ */
+export type FilterGroup = { and: FilterSpec[] } | { or: FilterSpec[] };
+
+/**
+ * Any entry of the filter model: either a field condition or a filter group.
+ */
+export type FilterSpec = FilterCondition | FilterGroup;
+
+/**
+ * A sort clause for a query.
+ */
+export interface OrderBySpec {
+  field: string;
+  direction?: 'asc' | 'desc';
+}
+
+/**
+ * Ordering, cursor and projection options applied on top of the filters of a query.
+ *
+ * @property {Array<OrderBySpec>} [orderBy] - Fields to sort by, in priority order
+ * @property {Array<any>} [startAt] - Values of the orderBy fields the results start at (inclusive)
+ * @property {Array<any>} [endBefore] - Values of the orderBy fields the results end before (exclusive)
+ * @property {Array<string>} [select] - Field paths to return (dotted for nested fields); other fields are omitted
+ */
+export interface QueryOptions {
+  orderBy?: OrderBySpec[];
+  startAt?: any[];
+  endBefore?: any[];
+  select?: string[];
+}
+
+/**
+ * An aggregation to compute over the documents matching a query.
+ *
+ * @property {string} type - One of 'count', 'sum' or 'average'
+ * @property {string} [field] - The field to aggregate (required for sum and average)
+ * @property {string} [alias] - The key of the result (defaults to e.g. 'count' or 'sum_total')
+ */
+export interface AggregationSpec {
+  type: 'count' | 'sum' | 'average';
+  field?: string;
+  alias?: string;
+}
+
+/**
+ * Builds a Firestore Filter from an entry of the filter model.
+ *
+ * @param {FilterSpec} spec - A field condition or an AND/OR group
+ * @param {Firestore} firestore - The Firestore instance used to decode typed filter values
+ * @returns {Filter} The equivalent Firestore filter
+ * @throws {Error} If the filter entry is malformed
+ *
+ * @example
+ * // status is pending or failed
+ * const filter = buildFilter({ or: [
+ *   { field: 'status', operator: '==', value: 'pending' },
+ *   { field: 'status', operator: '==', value: 'failed' }
+ * ]}, db);
+ */
+export function buildFilter(spec: FilterSpec, firestore: Firestore): Filter {
+  if (!spec || typeof spec !== 'object') {
+    throw new Error('Invalid filter: expected an object');
+  }
+
+  if ('and' in spec || 'or' in spec) {
+    const isOr = 'or' in spec;
+    const children = isOr ? (spec as { or: FilterSpec[] }).or : (spec as { and: FilterSpec[] }).and;
+    if (!Array.isArray(children) || children.length === 0) {
+      throw new Error(`Invalid filter: '${isOr ? 'or' : 'and'}' must be a non-empty array of filters`);
+    }
+    const filters = children.map(child => buildFilter(child, firestore));
+    return isOr ? Filter.or(...filters) : Filter.and(...filters);
+  }
+
+  const { field, operator, value } = spec as FilterCondition;
+  if (!field || !operator) {
+    throw new Error('Invalid filter: conditions require a field and an operator');
+  }
+  return Filter.where(field, operator, decodeValue(value, firestore));
+}
+
+/**
+ * Applies the startAt and endBefore cursor bounds to a query. Firestore does not allow
+ * ordering to be added after a cursor, so the query must already carry its full ordering.
+ *
+ * @param {Query} query - A query with its ordering applied
+ * @param {QueryOptions} options - The options holding the ordering and cursor bounds
+ * @returns {Query} The query with its cursor bounds applied
+ * @throws {Error} If cursor bounds are used without orderBy
+ */
+export function applyCursorBounds(query: Query, options: QueryOptions): Query {
+  if (!options.startAt && !options.endBefore) {
+    return query;
+  }
+  if (!options.orderBy || options.orderBy.length === 0) {
+    throw new Error('startAt and endBefore require orderBy');
+  }
+  let result = query;
+  if (options.startAt) {
+    result = result.startAt(...options.startAt.map(value => decodeValue(value, query.firestore)));
+  }
+  if (options.endBefore) {
+    result = result.endBefore(...options.endBefore.map(value => decodeValue(value, query.firestore)));
+  }
+  return result;
+}
+
+/**
+ * Applies filters, ordering, cursor bounds and a field mask to a query.
+ * Top-level filters are combined with AND, matching the behaviour of chained `where()` calls.
+ * Filter and cursor values use the typed JSON encoding of the codec module.
+ *
+ * @param {Query} query - The base query (usually a collection reference)
+ * @param {Array<FilterSpec>} [filters=[]] - Filter conditions and groups
+ * @param {QueryOptions} [options={}] - Ordering, cursor and projection options
+ * @returns {Query} The constrained query
+ * @throws {Error} If a filter is malformed or cursor bounds are used without orderBy
+ *
+ * @example
+ * // Latest 10 orders that are pending or failed
+ * const query = applyQueryOptions(db.collection('orders'), [
+ *   { or: [
+ *     { field: 'status', operator: '==', value: 'pending' },
+ *     { field: 'status', operator: '==', value: 'failed' }
+ *   ]}
+ * ], { orderBy: [{ field: 'createdAt', direction: 'desc' }] }).limit(10);
+ */
+export function applyQueryOptions(query: Query, filters: FilterSpec[] = [], options: QueryOptions = {}): Query {
+  let result = query;
+
+  // Apply filters
+  for (const filter of filters) {
+    result = result.where(buildFilter(filter, query.firestore));
+  }
+
+  // Apply ordering
+  const orderBy = options.orderBy || [];
+  for (const order of orderBy) {
+    if (!order || !order.field) {
+      throw new Error('Invalid orderBy: each entry requires a field');
+    }
+    const direction = order.direction || 'asc';
+    if (direction !== 'asc' && direction !== 'desc') {
+      throw new Error(`Invalid orderBy direction '${direction}': expected 'asc' or 'desc'`);
+    }
+    result = result.orderBy(order.field, direction);
+  }
+
+  // Apply cursor bounds, which are positional values for the orderBy fields
+  result = applyCursorBounds(result, options);
+
+  // Apply the field mask
+  if (options.select) {
+    if (options.select.length === 0) {
+      throw new Error('select requires at least one field path');
+    }
+    result = result.select(...options.select);
+  }
+
+  return result;
+}
+
+/**
+ * Builds a Firestore AggregateSpec from a list of aggregations.
+ * When no aggregations are given, a single document count is returned.
+ *
+ * @param {Array<AggregationSpec>} [aggregations=[]] - The aggregations to compute
+ * @returns {AggregateSpec} A map of result alias to AggregateField
+ * @throws {Error} If an aggregation is malformed or two aggregations share an alias
+ *
+ * @example
+ * // Count documents and sum their totals
+ * const spec = buildAggregateSpec([{ type: 'count' }, { type: 'sum', field: 'total' }]);
+ * const snapshot = await db.collection('orders').aggregate(spec).get();
+ */
+export function buildAggregateSpec(aggregations: AggregationSpec[] = []): AggregateSpec {
+  if (aggregations.length === 0) {
+    return { count: AggregateField.count() };
+  }
+
+  const spec: AggregateSpec = {};
+  for (const aggregation of aggregations) {
+    let field: AggregateField<any>;
+    switch (aggregation.type) {
+      case 'count':
+        field = AggregateField.count();
+        break;
+      case 'sum':
+      case 'average':
+        if (!aggregation.field) {
+          throw new Error(`Invalid aggregation: '${aggregation.type}' requires a field`);
+        }
+        field = aggregation.type === 'sum' ? AggregateField.sum(aggregation.field) : AggregateField.average(aggregation.field);
+        break;
+      default:
+        throw new Error(`Invalid aggregation type '${(aggregation as AggregationSpec).type}': expected 'count', 'sum' or 'average'`);
+    }
+
+    const alias = aggregation.alias || (aggregation.field ? `${aggregation.type}_${aggregation.field}` : aggregation.type);
+    if (alias in spec) {
+      throw new Error(`Invalid aggregation: duplicate alias '${alias}'`);
+    }
+    spec[alias] = field;
+  }
+  return spec;
+}
@@ -0,0 +1,225 @@
+/**
+ * Firestore Reference Integrity
+ *
+ * This module scans a collection for links to other documents and reports the ones whose
+ * target document does not exist. Links are DocumentReference fields, found at any depth,
+ * and string fields declared as foreign keys into a collection (for example `userId` holding
+ * IDs of documents in `users`). Target documents are looked up in batches without reading
+ * their fields, and each target is only looked up once per scan.
+ * All functions return data in a format compatible with the MCP protocol response structure.
+ *
+ * @module firebase-mcp/firestore-references
+ */
+
+import { DocumentReference, FieldPath, Firestore, Query, QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { getFirestore } from './firebaseConfig';
+import { getValueType } from './firestoreCodec';
+import { queryErrorContent } from './firestoreIndexes';
+import { normalizeCollectionPath } from './firestorePaths';
+
+/** Highest number of documents a single scan may read */
+const MAX_SCANNED_DOCUMENTS = 10000;
+
+/** Number of documents read per page, and of target documents looked up per request */
+const PAGE_SIZE = 500;
+
+/** Number of dangling references listed in the response */
+const MAX_REPORTED_REFERENCES = 100;
+
+/**
+ * A string field holding IDs of documents in another collection.
+ *
+ * @property {string} field - Dotted field path; the value may be an ID or an array of IDs
+ * @property {string} collection - Collection path the IDs belong to, e.g. 'users'
+ */
+export interface ForeignKeySpec {
+  field: string;
+  collection: string;
+}
+
+/**
+ * A link from a scanned document to a target document.
+ * @private
+ */
+interface DocumentLink {
+  document: string;
+  field: string;
+  target: string;
+}
+
+/**
+ * Collects the DocumentReference values of a value and of nested maps and arrays.
+ *
+ * @param {any} value - The value read from Firestore
+ * @param {string} fieldPath - Dotted path of the value; array elements use a '[]' suffix
+ * @param {Array<Object>} found - Receives the field path and target path of each reference
+ * @private
+ */
+function collectReferences(value: any, fieldPath: string, found: Array<{ field: string, target: string }>) {
+  switch (getValueType(value)) {
+    case 'reference':
+      found.push({ field: fieldPath, target: (value as DocumentReference).path });
+      break;
+    case 'array':
+      for (const element of value) {
+        collectReferences(element, `${fieldPath}[]`, found);
+      }
+      break;
+    case 'map':
+      for (const key of Object.keys(value)) {
+        collectReferences(value[key], fieldPath ? `${fieldPath}.${key}` : key, found);
+      }
+      break;
+  }
+}
+
+/**
+ * Returns the links of a scanned document: its reference fields and its foreign key values.
+ * Foreign key values that cannot be document IDs are reported with an empty target.
+ *
+ * @param {QueryDocumentSnapshot} doc - The scanned document
+ * @param {Array<ForeignKeySpec>} foreignKeys - The declared foreign keys
+ * @returns {Array<DocumentLink>} The links found
+ * @private
+ */
+function findLinks(doc: QueryDocumentSnapshot, foreignKeys: ForeignKeySpec[]): DocumentLink[] {
+  const found: Array<{ field: string, target: string }> = [];
+  collectReferences(doc.data(), '', found);
+
+  for (const foreignKey of foreignKeys) {
+    const value = doc.get(foreignKey.field);
+    const ids = Array.isArray(value) ? value : [value];
+    for (const id of ids) {
+      if (typeof id === 'string') {
+        const isValidId = id.length > 0 && !id.includes('/');
+        found.push({ field: foreignKey.field, target: isValidId ? `${normalizeCollectionPath(foreignKey.collection)}/${id}` : '' });
+      }
+    }
+  }
+  return found.map(link => ({ document: doc.ref.path, ...link }));
+}
+
+/**
+ * Looks up which of a set of documents exist, without reading their fields.
+ *
+ * @param {Firestore} db - The Firestore instance
+ * @param {Array<string>} paths - Document paths not looked up yet
+ * @param {Map<string, boolean>} existing - Receives whether each document exists
+ * @private
+ */
+async function lookUpDocuments(db: Firestore, paths: string[], existing: Map<string, boolean>) {
+  for (let start = 0; start < paths.length; start += PAGE_SIZE) {
+    const refs = paths.slice(start, start + PAGE_SIZE).map(path => db.doc(path));
+    const snapshots = await db.getAll(...refs, { fieldMask: [] });
+    for (const snapshot of snapshots) {
+      existing.set(snapshot.ref.path, snapshot.exists);
+    }
+  }
+}
+
+/**
+ * Scans a collection or collection group for references to documents that do not exist.
+ * Every DocumentReference field is checked, at any depth, as well as the declared foreign
+ * key fields. Documents are scanned in document ID order up to the given limit.
+ *
+ * The report counts the links checked and the dangling ones per field, and lists the
+ * dangling references with the path of the document holding them and the missing target.
+ * Foreign key values that cannot be document IDs, such as empty strings or values
+ * containing '/', are reported as dangling with a null target.
+ *
+ * @param {string} collection - The collection path, or a collection ID when collectionGroup is true
+ * @param {Array<ForeignKeySpec>} [foreignKeys=[]] - String fields holding IDs of documents in other collections
+ * @param {number} [limit=1000] - Maximum number of documents to scan (at most 10000)
+ * @param {boolean} [collectionGroup=false] - Scan every collection with this ID across all parents
+ * @param {string} [database] - Firestore database ID; defaults to the server's default database
+ * @returns {Promise<Object>} MCP-formatted response with the counts per field and the dangling references
+ * @throws {Error} If Firebase is not initialized or if there's a Firestore error
+ *
+ * @example
+ * // Find orders whose user or referenced products were deleted
+ * const report = await checkReferences('orders', [{ field: 'userId', collection: 'users' }]);
+ */
+export async function checkReferences(collection: string, foreignKeys: ForeignKeySpec[] = [], limit: number = 1000, collectionGroup: boolean = false, database?: string) {
+  try {
+    // Check if Firebase is initialized
+    const db = getFirestore(database);
+    if (!db) {
+      return { content: [{ type: 'text', text: 'Firebase is not initialized. SERVICE_ACCOUNT_KEY_PATH environment variable is required.' }], isError: true };
+    }
+
+    // Validate the arguments
+    if (collectionGroup && (!collection || collection.includes('/'))) {
+      throw new Error(`Invalid collection ID '${collection}': collection group queries take a collection ID without slashes`);
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SCANNED_DOCUMENTS) {
+      throw new Error(`Invalid limit ${limit}: must be an integer between 1 and ${MAX_SCANNED_DOCUMENTS}`);
+    }
+    for (const foreignKey of foreignKeys) {
+      if (!foreignKey || !foreignKey.field || !foreignKey.collection) {
+        throw new Error('Each foreign key requires a field and a collection');
+      }
+      normalizeCollectionPath(foreignKey.collection);
+    }
+    const source: Query = collectionGroup ? db.collectionGroup(collection) : db.collection(normalizeCollectionPath(collection));
+    const query = source.orderBy(FieldPath.documentId());
+
+    // Scan the documents page by page, looking up each page's new targets
+    const existing = new Map<string, boolean>();
+    const byField = new Map<string, { checked: number, dangling: number }>();
+    const dangling: DocumentLink[] = [];
+    let scanned = 0;
+    let checked = 0;
+    let truncated = false;
+    let last: QueryDocumentSnapshot | undefined;
+    while (scanned < limit) {
+      const pageSize = Math.min(PAGE_SIZE, limit - scanned);
+      const page = await (last ? query.startAfter(last) : query).limit(pageSize).get();
+      scanned += page.size;
+
+      const links = page.docs.flatMap(doc => findLinks(doc, foreignKeys));
+      const unknown = [...new Set(links.map(link => link.target).filter(target => target && !existing.has(target)))];
+      await lookUpDocuments(db, unknown, existing);
+
+      for (const link of links) {
+        const stats = byField.get(link.field) || { checked: 0, dangling: 0 };
+        byField.set(link.field, stats);
+        stats.checked++;
+        checked++;
+        if (!link.target || !existing.get(link.target)) {
+          stats.dangling++;
+          dangling.push(link);
+        }
+      }
+
+      if (page.size < pageSize) {
+        break;
+      }
+      last = page.docs[page.size - 1];
+      if (scanned === limit) {
+        truncated = !(await query.startAfter(last).limit(1).get()).empty;
+      }
+    }
+
+    // Format response for MCP
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({
+          collection,
+          collectionGroup,
+          scanned,
+          ...(truncated ? { truncated: true } : {}),
+          referencesChecked: checked,
+          danglingReferences: dangling.length,
+          fields: [...byField.entries()]
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([field, stats]) => ({ field, ...stats })),
+          dangling: dangling.slice(0, MAX_REPORTED_REFERENCES).map(link => ({ ...link, target: link.target || null })),
+          ...(dangling.length > MAX_REPORTED_REFERENCES ? { danglingTruncated: true } : {})
+        })
+      }]
+    };
+  } catch (error) {
+    return { content: queryErrorContent(error, 'checking references'), isError: true };
+  }
+}
@@ -0,0 +1,253 @@
+/**
+ * Firestore Resources
+ *
+ * This module exposes Firestore documents and saved queries as MCP resources that clients
+ * can read and subscribe to. Documents are addressed as `firestore://document/{path}` and
+ * saved queries as `firestore://query/{name}`. Subscribing attaches an onSnapshot listener
+ * that reports every change after the initial snapshot. Documents are read from the server's
+ * default database, while each saved query runs against the database it was saved for.
+ *
+ * @module firebase-mcp/firestore-resources
+ */
+
+import { Query } from 'firebase-admin/firestore';
+import { db, getFirestore } from './firebaseConfig';
+import { encodeDocument, formatTimestamp } from './firestoreCodec';
+import { getConsoleUrl, normalizeCollectionPath, normalizeDocumentPath } from './firestorePaths';
+import { applyQueryOptions, FilterSpec, QueryOptions } from './firestoreQuery';
+
+/** URI prefix of document resources */
+const DOCUMENT_URI_PREFIX = 'firestore://document/';
+
+/** URI prefix of saved query resources */
+const QUERY_URI_PREFIX = 'firestore://query/';
+
+/**
+ * A named query that can be read and subscribed to as a resource.
+ */
+export interface SavedQuery {
+  collection: string;
+  filters: FilterSpec[];
+  limit: number;
+  options: QueryOptions;
+  /** Database ID, or undefined for the server's default database */
+  database?: string;
+}
+
+/** Saved queries by name, kept for the lifetime of the server */
+const savedQueries = new Map<string, SavedQuery>();
+
+/** Active snapshot listeners by resource URI */
+const subscriptions = new Map<string, { detach: () => void, onUpdate: () => void }>();
+
+/**
+ * Parses a resource URI into the document path or saved query name it addresses.
+ *
+ * @param {string} uri - The resource URI
+ * @returns {Object} The kind of resource and its document path or query name
+ * @throws {Error} If the URI is not a Firestore resource URI
+ * @private
+ */
+function parseResourceUri(uri: string): { kind: 'document', path: string } | { kind: 'query', name: string } {
+  if (uri.startsWith(DOCUMENT_URI_PREFIX)) {
+    const path = normalizeDocumentPath(decodeURIComponent(uri.slice(DOCUMENT_URI_PREFIX.length)));
+    return { kind: 'document', path };
+  }
+  if (uri.startsWith(QUERY_URI_PREFIX)) {
+    const name = decodeURIComponent(uri.slice(QUERY_URI_PREFIX.length));
+    if (!savedQueries.has(name)) {
+      throw new Error(`Unknown saved query '${name}'`);
+    }
+    return { kind: 'query', name };
+  }
+  throw new Error(`Unsupported resource URI '${uri}': expected ${DOCUMENT_URI_PREFIX}{path} or ${QUERY_URI_PREFIX}{name}`);
+}
+
+/**
+ * Builds the Firestore query for a saved query.
+ *
+ * @param {SavedQuery} saved - The saved query
+ * @returns {Query} The query, limited to the saved number of documents
+ * @private
+ */
+function buildSavedQuery(saved: SavedQuery): Query {
+  return applyQueryOptions(getFirestore(saved.database)!.collection(saved.collection), saved.filters, saved.options).limit(saved.limit);
+}
+
+/**
+ * Attaches the snapshot listener for a resource. The first snapshot only reflects the
+ * current state, so onUpdate is called for every snapshot after it.
+ *
+ * @param {string} uri - The resource URI
+ * @param {Function} onUpdate - Called when the resource changes
+ * @returns {Function} Detaches the listener
+ * @private
+ */
+function attachListener(uri: string, onUpdate: () => void): () => void {
+  const resource = parseResourceUri(uri);
+  let initial = true;
+  const onNext = () => {
+    if (initial) {
+      initial = false;
+      return;
+    }
+    onUpdate();
+  };
+  const onError = (error: Error) => {
+    console.error(`[Firestore] Subscription to ${uri} failed:`, error);
+    subscriptions.delete(uri);
+  };
+  return resource.kind === 'document'
+    ? db!.doc(resource.path).onSnapshot(onNext, onError)
+    : buildSavedQuery(savedQueries.get(resource.name)!).onSnapshot(onNext, onError);
+}
+
+/**
+ * Saves a named query so it can be read and subscribed to as a resource.
+ * Saving over an existing name replaces the query and moves any subscription to the new one.
+ *
+ * @param {string} name - The query name, used in the resource URI
+ * @param {string} collection - The collection path to query
+ * @param {Array<FilterSpec>} [filters=[]] - Filters to apply, combined with AND
+ * @param {number} [limit=20] - Maximum number of documents in the resource
+ * @param {QueryOptions} [options={}] - Ordering and cursor options
+ * @param {string} [database] - Firestore database ID; defaults to the server's default database
+ * @returns {Promise<Object>} MCP-formatted response with the resource URI
+ * @throws {Error} If Firebase is not initialized or if the query is invalid
+ *
+ * @example
+ * // Watch the jobs that are still running
+ * const result = await saveQuery('running-jobs', 'jobs', [{ field: 'status', operator: '==', value: 'running' }]);
+ */
+export async function saveQuery(name: string, collection: string, filters: FilterSpec[] = [], limit: number = 20, options: QueryOptions = {}, database?: string) {
+  try {
+    // Check if Firebase is initialized
+    if (!db) {
+      return { content: [{ type: 'text', text: 'Firebase is not initialized. SERVICE_ACCOUNT_KEY_PATH environment variable is required.' }], isError: true };
+    }
+
+    // Validate the query by building it before saving
+    if (!name) {
+      throw new Error('a query name is required');
+    }
+    const saved: SavedQuery = { collection: normalizeCollectionPath(collection), filters, limit, options, database };
+    buildSavedQuery(saved);
+    savedQueries.set(name, saved);
+
+    // Move an existing subscription to the new query
+    const uri = `${QUERY_URI_PREFIX}${encodeURIComponent(name)}`;
+    const subscription = subscriptions.get(uri);
+    if (subscription) {
+      subscription.detach();
+      subscriptions.set(uri, { detach: attachListener(uri, subscription.onUpdate), onUpdate: subscription.onUpdate });
+    }
+
+    // Format response for MCP
+    return { content: [{ type: 'text', text: JSON.stringify({ name, uri }) }] };
+  } catch (error) {
+    return { content: [{ type: 'text', text: `Error saving query: ${(error as Error).message}` }], isError: true };
+  }
+}
+
+/**
+ * Lists the saved queries as MCP resources. Documents are not listed; they are
+ * described by the document resource template instead.
+ *
+ * @returns {Array<Object>} Resource descriptors for the saved queries
+ */
+export function listResources() {
+  return [...savedQueries.entries()].map(([name, saved]) => ({
+    uri: `${QUERY_URI_PREFIX}${encodeURIComponent(name)}`,
+    name,
+    description: `Saved query on ${saved.collection}${saved.database ? ` in database ${saved.database}` : ''}`,
+    mimeType: 'application/json'
+  }));
+}
+
+/**
+ * Lists the URI templates of resources that are not enumerated by listResources.
+ *
+ * @returns {Array<Object>} Resource templates
+ */
+export function listResourceTemplates() {
+  return [{
+    uriTemplate: `${DOCUMENT_URI_PREFIX}{+path}`,
+    name: 'Firestore document',
+    description: 'A Firestore document by its full path, e.g. firestore://document/jobs/job123',
+    mimeType: 'application/json'
+  }];
+}
+
+/**
+ * Reads the current contents of a document or saved query resource.
+ *
+ * @param {string} uri - The resource URI
+ * @returns {Promise<Object>} MCP resource contents with the typed JSON encoding of the data
+ * @throws {Error} If Firebase is not initialized, the URI is not supported or there's a Firestore error
+ */
+export async function readResource(uri: string) {
+  if (!db) {
+    throw new Error('Firebase is not initialized. SERVICE_ACCOUNT_KEY_PATH environment variable is required.');
+  }
+
+  const resource = parseResourceUri(uri);
+  let result: Record<string, any>;
+  if (resource.kind === 'document') {
+    const doc = await db.doc(resource.path).get();
+    result = {
+      path: resource.path,
+      url: getConsoleUrl(resource.path),
+      exists: doc.exists,
+      ...(doc.exists ? { updateTime: formatTimestamp(doc.updateTime!), document: encodeDocument(doc.data()) } : {})
+    };
+  } else {
+    const saved = savedQueries.get(resource.name)!;
+    const snapshot = await buildSavedQuery(saved).get();
+    result = {
+      name: resource.name,
+      collection: saved.collection,
+      documents: snapshot.docs.map(doc => ({ id: doc.id, path: doc.ref.path, url: getConsoleUrl(doc.ref.path, saved.database), document: encodeDocument(doc.data()) }))
+    };
+  }
+
+  return { contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(result) }] };
+}
+
+/**
+ * Subscribes to changes of a document or saved query resource. Subscribing to a
+ * resource that is already watched replaces the previous callback.
+ *
+ * @param {string} uri - The resource URI
+ * @param {Function} onUpdate - Called whenever the resource changes
+ * @throws {Error} If Firebase is not initialized or the URI is not supported
+ */
+export function subscribeResource(uri: string, onUpdate: () => void) {
+  if (!db) {
+    throw new Error('Firebase is not initialized. SERVICE_ACCOUNT_KEY_PATH environment variable is required.');
+  }
+
+  unsubscribeResource(uri);
+  subscriptions.set(uri, { detach: attachListener(uri, onUpdate), onUpdate });
+}
+
+/**
+ * Stops watching a resource. Unsubscribing from a resource that is not watched does nothing.
+ *
+ * @param {string} uri - The resource URI
+ */
+export function unsubscribeResource(uri: string) {
+  const subscription = subscriptions.get(uri);
+  if (subscription) {
+    subscription.detach();
+    subscriptions.delete(uri);
+  }
+}
+
+/**
+ * Detaches every snapshot listener, e.g. when the server shuts down.
+ */
+export function unsubscribeAll() {
+  for (const uri of [...subscriptions.keys()]) {
+    unsubscribeResource(uri);
+  }
+}
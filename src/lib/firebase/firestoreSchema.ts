@@ -0,0 +1,182 @@
+/**
+ * Firestore Schema Inference
+ *
+ * This module infers the shape of a collection from a sample of its documents.
+ * Firestore is schemaless, so the report describes what was observed: the types seen
+ * at each field path, how often each field is present, example values and the
+ * collections that reference fields point to.
+ * All functions return data in a format compatible with the MCP protocol response structure.
+ *
+ * @module firebase-mcp/firestore-schema
+ */
+
+import { DocumentReference } from 'firebase-admin/firestore';
+import { getFirestore } from './firebaseConfig';
+import { encodeValue, getValueType } from './firestoreCodec';
+import { normalizeCollectionPath } from './firestorePaths';
+
+/** Number of example values kept per field */
+const MAX_EXAMPLES = 3;
+
+/** Longest example string reported before it is shortened */
+const MAX_EXAMPLE_LENGTH = 100;
+
+/** Highest number of documents a single inference may sample */
+const MAX_SAMPLE_SIZE = 10000;
+
+/**
+ * Statistics collected for one field path while sampling.
+ * @private
+ */
+interface FieldStats {
+  types: Record<string, number>;
+  documents: number;
+  examples: any[];
+  references: Set<string>;
+}
+
+/**
+ * Shortens an example value so long strings, bytes and vectors do not dominate the report.
+ *
+ * @param {any} value - The encoded example value
+ * @returns {any} The value, with long strings truncated and vectors reduced to their dimensions
+ * @private
+ */
+function shortenExample(value: any): any {
+  if (typeof value === 'string' && value.length > MAX_EXAMPLE_LENGTH) {
+    return `${value.slice(0, MAX_EXAMPLE_LENGTH)}…`;
+  }
+  if (value && value.__type === 'vector') {
+    return { __type: 'vector', dimensions: value.values.length };
+  }
+  if (value && value.__type === 'bytes') {
+    return { __type: 'bytes', base64: shortenExample(value.base64) };
+  }
+  return value;
+}
+
+/**
+ * Records a value and, for maps and arrays, its nested values under the given field path.
+ *
+ * @param {Map<string, FieldStats>} fields - Statistics per field path
+ * @param {Set<string>} seen - Field paths already counted for the current document
+ * @param {string} fieldPath - Dotted path of the value; array elements use a '[]' suffix
+ * @param {any} value - The value read from Firestore
+ * @private
+ */
+function recordValue(fields: Map<string, FieldStats>, seen: Set<string>, fieldPath: string, value: any) {
+  let stats = fields.get(fieldPath);
+  if (!stats) {
+    stats = { types: {}, documents: 0, examples: [], references: new Set() };
+    fields.set(fieldPath, stats);
+  }
+
+  // Count presence once per document, types once per value
+  if (!seen.has(fieldPath)) {
+    seen.add(fieldPath);
+    stats.documents++;
+  }
+  const type = getValueType(value);
+  stats.types[type] = (stats.types[type] || 0) + 1;
+
+  if (type === 'map') {
+    for (const key of Object.keys(value)) {
+      recordValue(fields, seen, `${fieldPath}.${key}`, value[key]);
+    }
+    return;
+  }
+  if (type === 'array') {
+    for (const element of value) {
+      recordValue(fields, seen, `${fieldPath}[]`, element);
+    }
+    return;
+  }
+  if (type === 'reference') {
+    stats.references.add((value as DocumentReference).parent.path);
+  }
+
+  // Keep a few distinct examples of scalar values
+  if (stats.examples.length < MAX_EXAMPLES) {
+    const example = shortenExample(encodeValue(value));
+    const serialized = JSON.stringify(example);
+    if (!stats.examples.some(existing => JSON.stringify(existing) === serialized)) {
+      stats.examples.push(example);
+    }
+  }
+}
+
+/**
+ * Infers the schema of a collection or collection group from a sample of its documents.
+ * Documents are sampled in document ID order. For every field path the report lists the
+ * observed types with counts, the percentage of sampled documents containing it, example
+ * values and, for reference fields, the collections the references point to. Nested map
+ * fields use dotted paths (`address.city`) and array elements a `[]` suffix (`tags[]`).
+ *
+ * @param {string} collection - The collection path, or a collection ID when collectionGroup is true
+ * @param {number} [sampleSize=100] - Maximum number of documents to sample (at most 10000)
+ * @param {boolean} [collectionGroup=false] - Sample every collection with this ID across all parents
+ * @param {string} [database] - Firestore database ID; defaults to the server's default database
+ * @returns {Promise<Object>} MCP-formatted response with the inferred schema
+ * @throws {Error} If Firebase is not initialized or if there's a Firestore error
+ *
+ * @example
+ * // Infer the shape of the users collection
+ * const schema = await inferSchema('users', 200);
+ *
+ * @example
+ * // Infer the shape of every comments subcollection
+ * const schema = await inferSchema('comments', 100, true);
+ */
+export async function inferSchema(collection: string, sampleSize: number = 100, collectionGroup: boolean = false, database?: string) {
+  try {
+    // Check if Firebase is initialized
+    const db = getFirestore(database);
+    if (!db) {
+      return { content: [{ type: 'text', text: 'Firebase is not initialized. SERVICE_ACCOUNT_KEY_PATH environment variable is required.' }], isError: true };
+    }
+
+    // Validate the arguments
+    if (collectionGroup && (!collection || collection.includes('/'))) {
+      throw new Error(`Invalid collection ID '${collection}': collection group queries take a collection ID without slashes`);
+    }
+    if (!Number.isInteger(sampleSize) || sampleSize < 1 || sampleSize > MAX_SAMPLE_SIZE) {
+      throw new Error(`Invalid sample size ${sampleSize}: must be an integer between 1 and ${MAX_SAMPLE_SIZE}`);
+    }
+
+    // Sample the documents
+    const query = collectionGroup ? db.collectionGroup(collection) : db.collection(normalizeCollectionPath(collection));
+    const snapshot = await query.limit(sampleSize).get();
+
+    // Handle empty results
+    if (snapshot.empty) {
+      return { content: [{ type: 'text', text: 'No documents found to sample' }], isError: true };
+    }
+
+    // Walk every sampled document
+    const fields = new Map<string, FieldStats>();
+    for (const doc of snapshot.docs) {
+      const seen = new Set<string>();
+      const data = doc.data();
+      for (const key of Object.keys(data)) {
+        recordValue(fields, seen, key, data[key]);
+      }
+    }
+
+    // Build the report, sorted by field path
+    const sampled = snapshot.size;
+    const report = [...fields.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([fieldPath, stats]) => ({
+        path: fieldPath,
+        types: stats.types,
+        presence: Math.round((stats.documents / sampled) * 1000) / 10,
+        ...(stats.examples.length > 0 ? { examples: stats.examples } : {}),
+        ...(stats.references.size > 0 ? { references: [...stats.references].sort() } : {})
+      }));
+
+    // Format response for MCP
+    return { content: [{ type: 'text', text: JSON.stringify({ collection, collectionGroup, sampled, fields: report }) }] };
+  } catch (error) {
+    return { content: [{ type: 'text', text: `Error inferring schema: ${(error as Error).message}` }], isError: true };
+  }
+}
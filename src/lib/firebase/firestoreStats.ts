@@ -0,0 +1,293 @@
+/**
+ * Firestore Collection Statistics
+ *
+ * This module profiles a collection or collection group for capacity planning: the document
+ * count (from an aggregation query, so every document is counted without being read), the
+ * estimated size of sampled documents, the values of low-cardinality fields, the oldest and
+ * newest documents by a timestamp field and the subcollections found under sampled documents.
+ * Sizes are estimated with Firestore's storage size rules.
+ * All functions return data in a format compatible with the MCP protocol response structure.
+ *
+ * @module firebase-mcp/firestore-stats
+ */
+
+import { DocumentReference } from 'firebase-admin/firestore';
+import { getFirestore } from './firebaseConfig';
+import { encodeValue, getValueType } from './firestoreCodec';
+import { queryErrorContent } from './firestoreIndexes';
+import { normalizeCollectionPath, splitPath } from './firestorePaths';
+
+/** Highest number of documents a single report may sample */
+const MAX_SAMPLE_SIZE = 10000;
+
+/** Number of sampled documents whose subcollections are listed in parallel */
+const LIST_COLLECTIONS_BATCH_SIZE = 20;
+
+/** Most distinct values a field may have in the sample to be reported as low-cardinality */
+const LOW_CARDINALITY_LIMIT = 20;
+
+/** Value types whose distinct values are counted */
+const CARDINALITY_TYPES = new Set(['string', 'boolean', 'integer', 'double', 'null']);
+
+/** Fixed bytes added to every document and document name by Firestore's size rules */
+const DOCUMENT_OVERHEAD = 32;
+const DOCUMENT_NAME_OVERHEAD = 16;
+
+/**
+ * Distinct values counted for one field path while sampling.
+ * @private
+ */
+interface FieldValues {
+  documents: number;
+  values: Map<string, { value: any, count: number }>;
+  overflow: boolean;
+}
+
+/**
+ * Returns the stored size of a string: its UTF-8 length plus one byte.
+ *
+ * @param {string} value - The string
+ * @returns {number} The size in bytes
+ * @private
+ */
+function stringSize(value: string): number {
+  return Buffer.byteLength(value, 'utf8') + 1;
+}
+
+/**
+ * Returns the stored size of a document name: its collection IDs and document IDs plus 16 bytes.
+ *
+ * @param {string} path - The document path
+ * @returns {number} The size in bytes
+ * @private
+ */
+function documentNameSize(path: string): number {
+  return splitPath(path).reduce((size, segment) => size + stringSize(segment), DOCUMENT_NAME_OVERHEAD);
+}
+
+/**
+ * Returns the stored size of a field value.
+ *
+ * @param {any} value - The value read from Firestore
+ * @returns {number} The size in bytes
+ * @private
+ */
+function valueSize(value: any): number {
+  switch (getValueType(value)) {
+    case 'null':
+    case 'boolean':
+      return 1;
+    case 'integer':
+    case 'double':
+    case 'timestamp':
+      return 8;
+    case 'string':
+      return stringSize(value);
+    case 'geopoint':
+      return 16;
+    case 'reference':
+      return documentNameSize((value as DocumentReference).path);
+    case 'bytes':
+      return (value as Uint8Array).length;
+    case 'vector':
+      // Vectors are stored as a map holding a type marker and an array of doubles
+      return stringSize('__type__') + stringSize('__vector__') + stringSize('value') + value.toArray().length * 8;
+    case 'array':
+      return value.reduce((size: number, element: any) => size + valueSize(element), 0);
+    default:
+      return mapSize(value);
+  }
+}
+
+/**
+ * Returns the stored size of a map: its field names and values.
+ *
+ * @param {Object} data - The map
+ * @returns {number} The size in bytes
+ * @private
+ */
+function mapSize(data: Record<string, any>): number {
+  return Object.keys(data).reduce((size, key) => size + stringSize(key) + valueSize(data[key]), 0);
+}
+
+/**
+ * Estimates the stored size of a document using Firestore's storage size rules: the size of
+ * the document name, plus the size of each field name and value, plus 32 bytes.
+ *
+ * @param {string} path - The document path
+ * @param {Object} data - The document data, as returned by `snapshot.data()`
+ * @returns {number} The estimated size in bytes
+ *
+ * @example
+ * estimateDocumentSize('users/alice', { name: 'Alice', age: 30 });
+ * // => 83
+ */
+export function estimateDocumentSize(path: string, data: FirebaseFirestore.DocumentData): number {
+  return documentNameSize(path) + mapSize(data) + DOCUMENT_OVERHEAD;
+}
+
+/**
+ * Counts the distinct scalar values of a field and of the fields of nested maps.
+ * Values inside arrays are not counted.
+ *
+ * @param {Map<string, FieldValues>} fields - Distinct values per field path
+ * @param {string} fieldPath - Dotted path of the value
+ * @param {any} value - The value read from Firestore
+ * @private
+ */
+function recordValue(fields: Map<string, FieldValues>, fieldPath: string, value: any) {
+  const type = getValueType(value);
+  if (type === 'map') {
+    for (const key of Object.keys(value)) {
+      recordValue(fields, `${fieldPath}.${key}`, value[key]);
+    }
+    return;
+  }
+  if (!CARDINALITY_TYPES.has(type)) {
+    return;
+  }
+
+  let stats = fields.get(fieldPath);
+  if (!stats) {
+    stats = { documents: 0, values: new Map(), overflow: false };
+    fields.set(fieldPath, stats);
+  }
+  stats.documents++;
+  if (stats.overflow) {
+    return;
+  }
+
+  // Stop counting once the field has too many distinct values
+  const key = `${type}:${value}`;
+  const counted = stats.values.get(key);
+  if (counted) {
+    counted.count++;
+  } else if (stats.values.size >= LOW_CARDINALITY_LIMIT) {
+    stats.overflow = true;
+    stats.values.clear();
+  } else {
+    stats.values.set(key, { value: encodeValue(value), count: 1 });
+  }
+}
+
+/**
+ * Reports statistics about a collection or collection group for capacity planning:
+ * - the number of documents, counted with an aggregation query
+ * - the average and largest estimated document size in the sample, and the estimated total size
+ * - the values of low-cardinality fields in the sample: fields with at most 20 distinct values
+ *   where at least one value repeats; nested map fields use dotted paths
+ * - the oldest and newest documents by a timestamp field, when one is given
+ * - the names of subcollections found under sampled documents, with how many contain each
+ *
+ * Documents are sampled in document ID order. Listing subcollections takes one request per
+ * sampled document; these requests are sent 20 at a time.
+ *
+ * @param {string} collection - The collection path, or a collection ID when collectionGroup is true
+ * @param {number} [sampleSize=100] - Maximum number of documents to sample (at most 10000)
+ * @param {string} [timestampField] - Field to find the oldest and newest documents by
+ * @param {boolean} [collectionGroup=false] - Report on every collection with this ID across all parents
+ * @param {string} [database] - Firestore database ID; defaults to the server's default database
+ * @returns {Promise<Object>} MCP-formatted response with the collection statistics
+ * @throws {Error} If Firebase is not initialized or if there's a Firestore error
+ *
+ * @example
+ * // Profile the orders collection, dated by their creation time
+ * const stats = await collectionStats('orders', 200, 'createdAt');
+ */
+export async function collectionStats(collection: string, sampleSize: number = 100, timestampField?: string, collectionGroup: boolean = false, database?: string) {
+  try {
+    // Check if Firebase is initialized
+    const db = getFirestore(database);
+    if (!db) {
+      return { content: [{ type: 'text', text: 'Firebase is not initialized. SERVICE_ACCOUNT_KEY_PATH environment variable is required.' }], isError: true };
+    }
+
+    // Validate the arguments
+    if (collectionGroup && (!collection || collection.includes('/'))) {
+      throw new Error(`Invalid collection ID '${collection}': collection group queries take a collection ID without slashes`);
+    }
+    if (!Number.isInteger(sampleSize) || sampleSize < 1 || sampleSize > MAX_SAMPLE_SIZE) {
+      throw new Error(`Invalid sample size ${sampleSize}: must be an integer between 1 and ${MAX_SAMPLE_SIZE}`);
+    }
+    const query = collectionGroup ? db.collectionGroup(collection) : db.collection(normalizeCollectionPath(collection));
+
+    // Count every document and find the oldest and newest while sampling
+    const [countSnapshot, snapshot, oldest, newest] = await Promise.all([
+      query.count().get(),
+      query.limit(sampleSize).get(),
+      timestampField ? query.orderBy(timestampField, 'asc').limit(1).get() : null,
+      timestampField ? query.orderBy(timestampField, 'desc').limit(1).get() : null
+    ]);
+    const count = countSnapshot.data().count;
+
+    // Measure and profile the sampled documents
+    let totalSize = 0;
+    let largest: { path: string, bytes: number } | null = null;
+    const fields = new Map<string, FieldValues>();
+    for (const doc of snapshot.docs) {
+      const data = doc.data();
+      const size = estimateDocumentSize(doc.ref.path, data);
+      totalSize += size;
+      if (!largest || size > largest.bytes) {
+        largest = { path: doc.ref.path, bytes: size };
+      }
+      for (const key of Object.keys(data)) {
+        recordValue(fields, key, data[key]);
+      }
+    }
+
+    // Collect the subcollections of the sampled documents, a few listings at a time
+    const subcollections: Record<string, number> = {};
+    for (let start = 0; start < snapshot.size; start += LIST_COLLECTIONS_BATCH_SIZE) {
+      const batch = snapshot.docs.slice(start, start + LIST_COLLECTIONS_BATCH_SIZE);
+      const collectionLists = await Promise.all(batch.map(doc => doc.ref.listCollections()));
+      for (const collections of collectionLists) {
+        for (const subcollection of collections) {
+          subcollections[subcollection.id] = (subcollections[subcollection.id] || 0) + 1;
+        }
+      }
+    }
+
+    // Build the report
+    const sampled = snapshot.size;
+    const averageBytes = sampled > 0 ? Math.round(totalSize / sampled) : 0;
+    const lowCardinalityFields = [...fields.entries()]
+      .filter(([, stats]) => !stats.overflow && stats.values.size < stats.documents)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([fieldPath, stats]) => ({
+        field: fieldPath,
+        documents: stats.documents,
+        values: [...stats.values.values()].sort((a, b) => b.count - a.count)
+      }));
+    const edgeDocument = (result: FirebaseFirestore.QuerySnapshot | null) => {
+      const doc = result && result.docs[0];
+      return doc ? { path: doc.ref.path, value: encodeValue(doc.get(timestampField!)) } : null;
+    };
+
+    // Format response for MCP
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({
+          collection,
+          collectionGroup,
+          count,
+          sampled,
+          size: {
+            averageBytes,
+            maxBytes: largest ? largest.bytes : 0,
+            largestDocument: largest ? largest.path : null,
+            estimatedTotalBytes: averageBytes * count
+          },
+          lowCardinalityFields,
+          ...(timestampField ? { timestampRange: { field: timestampField, oldest: edgeDocument(oldest), newest: edgeDocument(newest) } } : {}),
+          subcollections: Object.entries(subcollections)
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([name, documents]) => ({ name, documents }))
+        })
+      }]
+    };
+  } catch (error) {
+    return { content: queryErrorContent(error, 'collecting collection statistics'), isError: true };
+  }
+}
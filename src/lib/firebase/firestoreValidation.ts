@@ -0,0 +1,702 @@
+/**
+ * Firestore Schema Validation
+ *
+ * This module validates written documents against JSON Schemas registered per document path
+ * pattern in a local config file. Writes compute the document as it will be stored (merging
+ * partial updates into the current data and resolving write sentinels) and are rejected with
+ * field-level errors when it does not match, instead of being committed.
+ *
+ * The config file maps path patterns, in which `{name}` matches any single segment, to schemas:
+ * `{ "schemas": { "users/{uid}": { "type": "object", "required": ["email"] } } }`
+ *
+ * Schemas are JSON Schema draft-07, evaluated by Ajv with the formats of ajv-formats. Ajv runs
+ * in strict mode, so unknown keywords and formats are reported when the config is loaded
+ * instead of silently accepting every document.
+ *
+ * Documents are validated in a JSON view of their data: timestamps are RFC 3339 strings,
+ * references are document paths, bytes are base64 strings, geopoints are
+ * `{ latitude, longitude }` objects and vectors are arrays of numbers. The additional
+ * `firestoreType` keyword checks the Firestore type itself, e.g. `{ "firestoreType": "timestamp" }`.
+ *
+ * Environment variables used:
+ * - FIRESTORE_SCHEMA_CONFIG: Path to the schema config file (optional, default firestore.schemas.json)
+ *
+ * @module firebase-mcp/firestore-validation
+ */
+
+import Ajv, { ErrorObject, SchemaValidateFunction } from 'ajv';
+import addFormats from 'ajv-formats';
+import { Firestore, Timestamp } from 'firebase-admin/firestore';
+import fs from 'fs';
+import path from 'path';
+import { encodeDocument, formatTimestamp } from './firestoreCodec';
+import { normalizeDocumentPath, splitPath } from './firestorePaths';
+
+/** Config file used when FIRESTORE_SCHEMA_CONFIG is not set */
+const DEFAULT_SCHEMA_CONFIG = 'firestore.schemas.json';
+
+/** Firestore type names accepted by the firestoreType keyword */
+const FIRESTORE_TYPES = ['null', 'boolean', 'string', 'number', 'integer', 'double', 'timestamp', 'geopoint', 'reference', 'bytes', 'vector', 'array', 'map'];
+
+/** Marks a field removed by a deleteField sentinel while a write is applied */
+const DELETED = Symbol('deleted');
+
+/** Firestore types of the value being validated, keyed by JSON pointer into its JSON view */
+let validatedTypes = new Map<string, string>();
+
+/**
+ * Checks the firestoreType keyword against the type recorded for the validated value.
+ * @private
+ */
+const validateFirestoreType: SchemaValidateFunction = (expected: string | string[], _data, _parentSchema, dataCxt) => {
+  const types = Array.isArray(expected) ? expected : [expected];
+  const actual = validatedTypes.get(dataCxt ? dataCxt.instancePath : '') || 'null';
+  if (types.some(type => type === actual || (type === 'number' && (actual === 'integer' || actual === 'double')))) {
+    return true;
+  }
+  validateFirestoreType.errors = [{ keyword: 'firestoreType', message: `must be a Firestore ${types.join(' or ')}, got ${actual}`, params: { firestoreType: expected } }];
+  return false;
+};
+
+/**
+ * The schema compiler. Schemas are not registered by $id, so a reloaded config can reuse its IDs.
+ * @private
+ */
+const ajv = new Ajv({ allErrors: true, strict: true, strictTypes: false, strictTuples: false, strictRequired: false, addUsedSchema: false });
+addFormats(ajv);
+ajv.addKeyword({
+  keyword: 'firestoreType',
+  schemaType: ['string', 'array'],
+  metaSchema: { anyOf: [{ enum: FIRESTORE_TYPES }, { type: 'array', minItems: 1, items: { enum: FIRESTORE_TYPES } }] },
+  errors: true,
+  validate: validateFirestoreType
+});
+
+/**
+ * A single validation failure.
+ *
+ * @property {string} field - Path of the offending field, e.g. 'address.zip' or 'items[2].sku' ('' for the whole document)
+ * @property {string} keyword - The schema keyword that failed
+ * @property {string} message - What is wrong with the value
+ */
+export interface ValidationIssue {
+  field: string;
+  keyword: string;
+  message: string;
+}
+
+/**
+ * A document that does not match a schema registered for its path.
+ */
+export interface InvalidDocument {
+  path: string;
+  /** The path pattern the schema is registered for */
+  schema: string;
+  errors: ValidationIssue[];
+}
+
+/**
+ * Thrown when a write would store documents that do not match their schemas.
+ */
+export class SchemaValidationError extends Error {
+  documents: InvalidDocument[];
+
+  constructor(documents: InvalidDocument[]) {
+    super(documents.length === 1
+      ? `document '${documents[0].path}' does not match the schema registered for '${documents[0].schema}'`
+      : `${documents.length} documents do not match the schemas registered for their paths`);
+    this.name = 'SchemaValidationError';
+    this.documents = documents;
+  }
+}
+
+/**
+ * A single document write, as applied by the write tools and batches.
+ *
+ * @property {string} type - One of 'create', 'set', 'update' or 'delete'
+ * @property {string} path - Full document path
+ * @property {Object} [data] - Document data in typed JSON encoding (not used for delete)
+ * @property {boolean} [merge] - For set, merge the data into an existing document
+ * @property {Array<string>} [mergeFields] - For set, only write these field paths
+ */
+export interface DocumentWrite {
+  type: 'create' | 'set' | 'update' | 'delete';
+  path: string;
+  data?: any;
+  merge?: boolean;
+  mergeFields?: string[];
+}
+
+/**
+ * A schema registered for a document path pattern.
+ * @private
+ */
+interface RegisteredSchema {
+  pattern: string;
+  segments: string[];
+  schema: any;
+}
+
+/** The loaded config file, reloaded when the file changes */
+let loadedConfig: { file: string, mtimeMs: number, schemas: RegisteredSchema[] } | null = null;
+
+/**
+ * Returns the schemas of the config file, loading it again if it has changed.
+ *
+ * @returns {Array<RegisteredSchema>} The registered schemas, empty if there is no config file
+ * @throws {Error} If the config file is not valid
+ * @private
+ */
+function getRegisteredSchemas(): RegisteredSchema[] {
+  const file = path.resolve(process.env.FIRESTORE_SCHEMA_CONFIG || DEFAULT_SCHEMA_CONFIG);
+  if (!fs.existsSync(file)) {
+    if (process.env.FIRESTORE_SCHEMA_CONFIG) {
+      throw new Error(`Schema config '${file}' does not exist`);
+    }
+    return [];
+  }
+  const { mtimeMs } = fs.statSync(file);
+  if (loadedConfig && loadedConfig.file === file && loadedConfig.mtimeMs === mtimeMs) {
+    return loadedConfig.schemas;
+  }
+
+  try {
+    const config = JSON.parse(fs.readFileSync(file, 'utf8'));
+    if (!config || typeof config.schemas !== 'object' || Array.isArray(config.schemas)) {
+      throw new Error("expected an object with a 'schemas' map of path patterns to JSON Schemas");
+    }
+    const schemas = Object.entries(config.schemas).map(([pattern, schema]) => {
+      const segments = splitPath(pattern);
+      if (segments.length % 2 !== 0) {
+        throw new Error(`pattern '${pattern}' must match document paths (an even number of segments, e.g. 'users/{uid}')`);
+      }
+      try {
+        ajv.compile(schema as any);
+      } catch (error) {
+        throw new Error(`schema for '${pattern}' is invalid: ${(error as Error).message}`);
+      }
+      return { pattern, segments, schema };
+    });
+    loadedConfig = { file, mtimeMs, schemas };
+    return schemas;
+  } catch (error) {
+    throw new Error(`Invalid schema config '${file}': ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Checks whether a document path matches a path pattern.
+ *
+ * @param {Array<string>} segments - Segments of the document path
+ * @param {Array<string>} pattern - Segments of the pattern, with `{name}` matching any segment
+ * @returns {boolean} Whether the path matches
+ * @private
+ */
+function matchesPattern(segments: string[], pattern: string[]): boolean {
+  return segments.length === pattern.length
+    && pattern.every((part, index) => /^\{[^/{}]+\}$/.test(part) || part === segments[index]);
+}
+
+/**
+ * Finds the schemas registered for a document path.
+ *
+ * @param {string} documentPath - The document path
+ * @returns {Array<Object>} The matching patterns and their schemas
+ * @throws {Error} If the config file is not valid
+ *
+ * @example
+ * findSchemas('users/alice');
+ * // => [{ pattern: 'users/{uid}', schema: { type: 'object', ... } }]
+ */
+export function findSchemas(documentPath: string): Array<{ pattern: string, schema: any }> {
+  const segments = splitPath(documentPath);
+  return getRegisteredSchemas()
+    .filter(registered => matchesPattern(segments, registered.segments))
+    .map(({ pattern, schema }) => ({ pattern, schema }));
+}
+
+/**
+ * Checks whether any schema is registered for a document path, i.e. whether writes to it
+ * need the resulting document to be computed.
+ *
+ * @param {string} documentPath - The document path
+ * @returns {boolean} Whether writes to the path are validated
+ * @throws {Error} If the config file is not valid
+ */
+export function hasSchema(documentPath: string): boolean {
+  return findSchemas(documentPath).length > 0;
+}
+
+/**
+ * Returns the fields of a map value in typed JSON encoding.
+ *
+ * @param {any} value - An encoded value
+ * @returns {Object|null} The map fields, or null if the value is not a map
+ * @private
+ */
+function mapFields(value: any): Record<string, any> | null {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    return null;
+  }
+  if (!('__type' in value)) {
+    return value;
+  }
+  return value.__type === 'map' ? value.value : null;
+}
+
+/**
+ * Builds an encoded map value, escaping fields that would be mistaken for a typed value.
+ *
+ * @param {Object} fields - The map fields
+ * @returns {Object} The encoded map
+ * @private
+ */
+function toMap(fields: Record<string, any>): Record<string, any> {
+  return '__type' in fields ? { __type: 'map', value: fields } : fields;
+}
+
+/**
+ * Compares two encoded values for equality, ignoring the order of map keys.
+ *
+ * @param {any} a - Left-hand value
+ * @param {any} b - Right-hand value
+ * @returns {boolean} Whether the values are equal
+ * @private
+ */
+function valuesEqual(a: any, b: any): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object' || Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+  if (Array.isArray(a)) {
+    return a.length === b.length && a.every((element, index) => valuesEqual(element, b[index]));
+  }
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every(key => key in b && valuesEqual(a[key], b[key]));
+}
+
+/**
+ * Resolves a written value against the value it replaces: write sentinels are evaluated
+ * and, when merging, maps are merged into the current map.
+ *
+ * @param {any} value - The written value in typed JSON encoding
+ * @param {any} current - The current value at the same path, if any
+ * @param {boolean} merge - Whether maps are merged into the current value
+ * @param {any} serverTime - The value serverTimestamp sentinels resolve to, or undefined for the current time
+ * @returns {any} The resulting value, or DELETED if the field is removed
+ * @private
+ */
+function resolveValue(value: any, current: any, merge: boolean, serverTime: any): any {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    return value;
+  }
+
+  const fields = mapFields(value);
+  if (fields) {
+    const currentFields = merge ? mapFields(current) : null;
+    const result: Record<string, any> = { ...(currentFields || {}) };
+    for (const [key, field] of Object.entries(fields)) {
+      const resolved = resolveValue(field, currentFields?.[key], merge, serverTime);
+      if (resolved === DELETED) {
+        delete result[key];
+      } else {
+        result[key] = resolved;
+      }
+    }
+    return toMap(result);
+  }
+
+  switch (value.__type) {
+    case 'serverTimestamp':
+      return serverTime === undefined ? { __type: 'timestamp', value: formatTimestamp(Timestamp.now()) } : serverTime;
+    case 'increment':
+      return (typeof current === 'number' ? current : 0) + value.operand;
+    case 'arrayUnion': {
+      const result = Array.isArray(current) ? [...current] : [];
+      for (const element of value.elements) {
+        if (!result.some(existing => valuesEqual(existing, element))) {
+          result.push(element);
+        }
+      }
+      return result;
+    }
+    case 'arrayRemove':
+      return Array.isArray(current) ? current.filter(existing => !value.elements.some((element: any) => valuesEqual(existing, element))) : [];
+    case 'deleteField':
+      return DELETED;
+    default:
+      return value;
+  }
+}
+
+/**
+ * Replaces the value at a dotted field path, creating intermediate maps as needed.
+ *
+ * @param {Object} document - The document fields to modify
+ * @param {string} fieldPath - Dotted field path
+ * @param {any} value - The written value in typed JSON encoding
+ * @param {any} serverTime - The value serverTimestamp sentinels resolve to, or undefined for the current time
+ * @private
+ */
+function setFieldPath(document: Record<string, any>, fieldPath: string, value: any, serverTime: any) {
+  const segments = fieldPath.split('.');
+  let fields = document;
+  for (const segment of segments.slice(0, -1)) {
+    const child = mapFields(fields[segment]);
+    fields[segment] = child ? { ...child } : {};
+    fields = fields[segment];
+  }
+  const last = segments[segments.length - 1];
+  const resolved = resolveValue(value, fields[last], false, serverTime);
+  if (resolved === DELETED) {
+    delete fields[last];
+  } else {
+    fields[last] = resolved;
+  }
+}
+
+/**
+ * Reads the value at a dotted field path.
+ *
+ * @param {Object} document - The document fields
+ * @param {string} fieldPath - Dotted field path
+ * @returns {any} The value, or undefined if the path does not exist
+ * @private
+ */
+function getFieldPath(document: Record<string, any>, fieldPath: string): any {
+  let value: any = document;
+  for (const segment of fieldPath.split('.')) {
+    const fields = mapFields(value);
+    if (!fields || !(segment in fields)) {
+      return undefined;
+    }
+    value = fields[segment];
+  }
+  return value;
+}
+
+/**
+ * Computes the document a write will store, in typed JSON encoding.
+ *
+ * @param {Object|null} before - The current document data in typed JSON encoding, or null if it does not exist
+ * @param {DocumentWrite} write - The write to apply
+ * @param {any} [serverTime] - The value serverTimestamp sentinels resolve to; defaults to the current time
+ * @returns {Object|null} The resulting document data, or null if the write deletes the document
+ *
+ * @example
+ * applyWrite({ visits: 1, name: 'a' }, { type: 'update', path: 'pages/p1', data: { visits: { __type: 'increment', operand: 1 } } });
+ * // => { visits: 2, name: 'a' }
+ */
+export function applyWrite(before: Record<string, any> | null, write: DocumentWrite, serverTime?: any): Record<string, any> | null {
+  const data = write.data || {};
+  switch (write.type) {
+    case 'delete':
+      return null;
+    case 'update': {
+      const result = { ...(before || {}) };
+      for (const [fieldPath, value] of Object.entries(data)) {
+        setFieldPath(result, fieldPath, value, serverTime);
+      }
+      return result;
+    }
+    case 'create':
+    case 'set':
+      if (write.mergeFields) {
+        const result = { ...(before || {}) };
+        for (const fieldPath of write.mergeFields) {
+          setFieldPath(result, fieldPath, getFieldPath(data, fieldPath), serverTime);
+        }
+        return result;
+      }
+      return mapFields(resolveValue(toMap(data), write.merge ? toMap(before || {}) : null, !!write.merge, serverTime));
+    default:
+      throw new Error(`Invalid write type '${(write as DocumentWrite).type}'`);
+  }
+}
+
+/**
+ * Returns the Firestore type name of an encoded value.
+ *
+ * @param {any} value - The value in typed JSON encoding
+ * @returns {string} The Firestore type, e.g. 'timestamp', 'integer' or 'map'
+ * @private
+ */
+function getEncodedType(value: any): string {
+  if (value === null || value === undefined) {
+    return 'null';
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'double';
+  }
+  if (typeof value !== 'object') {
+    return typeof value;
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  switch (value.__type) {
+    case undefined:
+    case 'map':
+      return 'map';
+    case 'number':
+      return 'double';
+    default:
+      return value.__type;
+  }
+}
+
+/**
+ * Escapes a map key for use in a JSON pointer.
+ *
+ * @param {string} key - The map key
+ * @returns {string} The escaped pointer segment
+ * @private
+ */
+function escapePointer(key: string): string {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * Converts an encoded value into the JSON view schemas are validated against, recording the
+ * Firestore type of every value for the firestoreType keyword.
+ *
+ * @param {any} value - The value in typed JSON encoding
+ * @param {string} pointer - JSON pointer of the value in the JSON view
+ * @param {Map<string, string>} types - Receives the Firestore type of each value by pointer
+ * @returns {any} The JSON view of the value
+ * @private
+ */
+function toJsonView(value: any, pointer: string, types: Map<string, string>): any {
+  types.set(pointer, getEncodedType(value));
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((element, index) => toJsonView(element, `${pointer}/${index}`, types));
+  }
+  const fields = mapFields(value);
+  if (fields) {
+    return Object.fromEntries(Object.entries(fields).map(([key, field]) => [key, toJsonView(field, `${pointer}/${escapePointer(key)}`, types)]));
+  }
+  switch (value.__type) {
+    case 'timestamp':
+      return value.value;
+    case 'geopoint':
+      return { latitude: value.latitude, longitude: value.longitude };
+    case 'reference':
+      return value.path;
+    case 'bytes':
+      return value.base64;
+    case 'vector':
+      return value.values.map((element: number, index: number) => toJsonView(element, `${pointer}/${index}`, types));
+    case 'number':
+      return Number(value.value);
+    default:
+      return value;
+  }
+}
+
+/**
+ * Joins a field path and a map key or array index for error messages.
+ *
+ * @param {string} field - The parent field path
+ * @param {string|number} key - The map key or array index
+ * @returns {string} The child field path
+ * @private
+ */
+function childField(field: string, key: string | number): string {
+  if (typeof key === 'number') {
+    return `${field}[${key}]`;
+  }
+  return field ? `${field}.${key}` : key;
+}
+
+/**
+ * Converts a JSON pointer into the JSON view to a field path such as 'items[2].sku'.
+ *
+ * @param {string} pointer - The JSON pointer reported by Ajv
+ * @param {any} json - The validated JSON view
+ * @param {string} field - Field path of the validated value
+ * @returns {string} The field path
+ * @private
+ */
+function toFieldPath(pointer: string, json: any, field: string): string {
+  let value = json;
+  for (const segment of pointer.split('/').slice(1)) {
+    const key = segment.replace(/~1/g, '/').replace(/~0/g, '~');
+    field = Array.isArray(value) ? childField(field, Number(key)) : childField(field, key);
+    value = value === null || value === undefined ? undefined : value[key];
+  }
+  return field;
+}
+
+/**
+ * Converts an Ajv error to a validation issue. Missing and unexpected fields are reported on
+ * the field itself rather than on the map holding it.
+ *
+ * @param {ErrorObject} error - The Ajv error
+ * @param {any} json - The validated JSON view
+ * @param {string} field - Field path of the validated value
+ * @returns {ValidationIssue} The validation issue
+ * @private
+ */
+function toIssue(error: ErrorObject, json: any, field: string): ValidationIssue {
+  const at = toFieldPath(error.instancePath, json, field);
+  switch (error.keyword) {
+    case 'required':
+      return { field: childField(at, error.params.missingProperty), keyword: 'required', message: 'is required' };
+    case 'additionalProperties':
+      return { field: childField(at, error.params.additionalProperty), keyword: 'additionalProperties', message: 'is not allowed by the schema' };
+    default:
+      return { field: at, keyword: error.keyword, message: error.message || 'is invalid' };
+  }
+}
+
+/**
+ * Validates an encoded value against a schema.
+ *
+ * @param {any} value - The value in typed JSON encoding
+ * @param {any} schema - The JSON Schema
+ * @param {string} [field=''] - Field path of the value, used in error messages
+ * @returns {Array<ValidationIssue>} The validation failures, empty if the value is valid
+ * @throws {Error} If the schema is not valid
+ *
+ * @example
+ * validateValue({ age: -1 }, { properties: { age: { type: 'integer', minimum: 0 } } });
+ * // => [{ field: 'age', keyword: 'minimum', message: 'must be >= 0' }]
+ */
+export function validateValue(value: any, schema: any, field: string = ''): ValidationIssue[] {
+  const validate = ajv.compile(schema);
+  const types = new Map<string, string>();
+  const json = toJsonView(value, '', types);
+  validatedTypes = types;
+  try {
+    if (validate(json)) {
+      return [];
+    }
+  } finally {
+    validatedTypes = new Map();
+  }
+
+  // The errors of the branches of a failed anyOf or oneOf are summarized by its own error
+  return (validate.errors || [])
+    .filter(error => !/\/(anyOf|oneOf)\/\d+\//.test(error.schemaPath))
+    .map(error => toIssue(error, json, field));
+}
+
+/**
+ * Validates the documents written by a list of writes against the schemas registered for their
+ * paths. Writes are applied in order on top of the current documents, so several writes to the
+ * same document are validated as the document the last one leaves behind.
+ *
+ * @param {Array<DocumentWrite>} writes - The writes, in commit order
+ * @param {Map<string, Object|null>} [before=new Map()] - Current data of the written documents in typed JSON
+ *   encoding, keyed by normalized path (null if missing); only needed for updates and merges
+ * @throws {SchemaValidationError} If a resulting document does not match its schemas
+ * @throws {Error} If the config file is not valid
+ *
+ * @example
+ * checkWrites([{ type: 'update', path: 'users/alice', data: { age: -1 } }], new Map([['users/alice', current]]));
+ */
+export function checkWrites(writes: DocumentWrite[], before: Map<string, Record<string, any> | null> = new Map()) {
+  // Apply the writes to documents that have schemas, in order
+  const results = new Map<string, { document: Record<string, any> | null, schemas: Array<{ pattern: string, schema: any }> }>();
+  for (const write of writes) {
+    const documentPath = normalizeDocumentPath(write.path);
+    const schemas = findSchemas(documentPath);
+    if (schemas.length === 0) {
+      continue;
+    }
+    const current = results.has(documentPath) ? results.get(documentPath)!.document : before.get(documentPath) || null;
+    results.set(documentPath, { document: applyWrite(current, write), schemas });
+  }
+
+  // Validate the resulting documents
+  const invalid: InvalidDocument[] = [];
+  for (const [documentPath, { document, schemas }] of results) {
+    if (!document) {
+      continue;
+    }
+    for (const { pattern, schema } of schemas) {
+      const errors = validateValue(document, schema);
+      if (errors.length > 0) {
+        invalid.push({ path: documentPath, schema: pattern, errors });
+      }
+    }
+  }
+  if (invalid.length > 0) {
+    throw new SchemaValidationError(invalid);
+  }
+}
+
+/** Number of current documents read per request when validating merges */
+const READ_BATCH_SIZE = 500;
+
+/**
+ * Validates documents about to be set by a bulk write, each on its own, so that invalid
+ * documents can be skipped and reported while the others are written. When merging, the
+ * current documents are read to compute the merged result; documents changed between this
+ * read and the write are not validated again.
+ *
+ * @param {Firestore} firestore - The Firestore instance to read current documents from
+ * @param {Array<Object>} documents - The documents to set, as `{ path, data }` with data in typed JSON encoding
+ * @param {boolean} merge - Whether the data is merged into the current documents
+ * @returns {Promise<Map<number, SchemaValidationError>>} The validation error of each invalid document, by its index in documents
+ * @throws {Error} If the config file is not valid or if the current documents cannot be read
+ *
+ * @example
+ * const invalid = await findInvalidSets(db, [{ path: 'users/alice', data: { age: -1 } }], false);
+ * invalid.get(0)?.documents[0].errors;
+ */
+export async function findInvalidSets(firestore: Firestore, documents: Array<{ path: string, data: Record<string, any> }>, merge: boolean): Promise<Map<number, SchemaValidationError>> {
+  const validated = [...documents.entries()].filter(([, document]) => hasSchema(document.path));
+  const before = new Map<string, Record<string, any> | null>();
+  if (merge) {
+    for (let start = 0; start < validated.length; start += READ_BATCH_SIZE) {
+      const refs = validated.slice(start, start + READ_BATCH_SIZE).map(([, document]) => firestore.doc(document.path));
+      for (const snapshot of await firestore.getAll(...refs)) {
+        before.set(snapshot.ref.path, encodeDocument(snapshot.data()));
+      }
+    }
+  }
+
+  const invalid = new Map<number, SchemaValidationError>();
+  for (const [index, document] of validated) {
+    const documentPath = normalizeDocumentPath(document.path);
+    try {
+      checkWrites([{ type: 'set', path: documentPath, data: document.data, merge }], before);
+    } catch (error) {
+      if (!(error instanceof SchemaValidationError)) {
+        throw error;
+      }
+      invalid.set(index, error);
+    }
+  }
+  return invalid;
+}
+
+/**
+ * Formats a write error as the content of an MCP error response. Schema validation failures
+ * are returned as structured JSON with the field-level errors of each invalid document.
+ *
+ * @param {any} error - The error thrown by the write
+ * @param {string} action - What failed, e.g. 'adding document'
+ * @returns {Array<Object>} MCP content describing the error
+ *
+ * @example
+ * return { content: writeErrorContent(error, 'adding document'), isError: true };
+ */
+export function writeErrorContent(error: any, action: string) {
+  if (!(error instanceof SchemaValidationError)) {
+    return [{ type: 'text', text: `Error ${action}: ${(error as Error).message}` }];
+  }
+  return [{
+    type: 'text',
+    text: JSON.stringify({
+      error: `Error ${action}: ${error.message}; nothing was written`,
+      invalidDocuments: error.documents
+    })
+  }];
+}